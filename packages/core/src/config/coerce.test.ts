@@ -0,0 +1,108 @@
+/**
+ * @fileoverview Unit tests for schema-driven coercion of configuration values.
+ */
+
+import { describe, expect, it } from "bun:test";
+import z from "zod";
+import { coerceToSchema } from "./coerce";
+
+describe("coerceToSchema", () => {
+	const schema = z.object({
+		logging: z.object({
+			file: z
+				.object({
+					enabled: z.boolean(),
+					maxSize: z.string(),
+					maxFiles: z.number().default(5),
+				})
+				.optional(),
+		}),
+		ports: z.array(z.number()).nullable(),
+		tags: z.array(z.string()),
+	});
+
+	it("should coerce nested numbers, booleans and strings", () => {
+		const result = coerceToSchema(
+			{
+				logging: {
+					file: { enabled: "true", maxSize: "10", maxFiles: " 3 " },
+				},
+			},
+			schema,
+		);
+
+		expect(result).toEqual({
+			logging: { file: { enabled: true, maxSize: "10", maxFiles: 3 } },
+		});
+	});
+
+	it("should split comma-separated arrays and coerce their elements", () => {
+		const result = coerceToSchema(
+			{ ports: "80, 443,,8080", tags: "a,b" },
+			schema,
+		);
+
+		expect(result).toEqual({ ports: [80, 443, 8080], tags: ["a", "b"] });
+	});
+
+	it("should coerce elements of existing arrays", () => {
+		expect(coerceToSchema({ ports: ["80", 443] }, schema)).toEqual({
+			ports: [80, 443],
+		});
+	});
+
+	it.each([
+		["1", true],
+		["yes", true],
+		["ON", true],
+		["0", false],
+		["no", false],
+		["off", false],
+	])("should coerce boolean value %p", (value, expected) => {
+		expect(coerceToSchema(value, z.boolean())).toBe(expected);
+	});
+
+	it("should coerce the values of records", () => {
+		expect(
+			coerceToSchema({ a: "1", b: "2" }, z.record(z.string(), z.number())),
+		).toEqual({ a: 1, b: 2 });
+	});
+
+	it("should coerce to the first union option the value then matches", () => {
+		const union = z.union([
+			z.boolean(),
+			z.object({ enabled: z.boolean(), rollout: z.number() }),
+		]);
+
+		expect(coerceToSchema("true", union)).toBe(true);
+		expect(coerceToSchema({ enabled: "on", rollout: "25" }, union)).toEqual({
+			enabled: true,
+			rollout: 25,
+		});
+		expect(coerceToSchema("maybe", union)).toBe("maybe");
+	});
+
+	it("should coerce to the input schema of transforms", () => {
+		expect(
+			coerceToSchema(
+				"42",
+				z.number().transform((port) => port * 2),
+			),
+		).toBe(42);
+	});
+
+	it("should leave values that cannot be converted unchanged", () => {
+		expect(coerceToSchema("abc", z.number())).toBe("abc");
+		expect(coerceToSchema("", z.number())).toBe("");
+		expect(coerceToSchema("maybe", z.boolean())).toBe("maybe");
+		expect(coerceToSchema(42, z.array(z.number()))).toBe(42);
+		expect(coerceToSchema("value", schema)).toBe("value");
+	});
+
+	it("should keep keys unknown to the schema", () => {
+		expect(coerceToSchema({ extra: "1", tags: "x" }, schema)).toEqual({
+			extra: "1",
+			tags: ["x"],
+		});
+	});
+});
@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Coercion of string configuration values (e.g. from environment variables)
+ * to the types declared in a Zod schema.
+ */
+
+import {
+	ZodArray,
+	ZodBoolean,
+	ZodNumber,
+	ZodObject,
+	ZodRecord,
+	type ZodType,
+	ZodUnion,
+} from "zod";
+import { unwrapSchema } from "./schema-utils";
+import { isPlainObject } from "./utils";
+
+const TRUE_VALUES = ["true", "1", "yes", "on"];
+const FALSE_VALUES = ["false", "0", "no", "off"];
+
+/**
+ * Convert string values to the types declared by the schema:
+ * - numbers: "42" -> 42
+ * - booleans: "true" / "1" / "yes" / "on" -> true, "false" / "0" / "no" / "off" -> false
+ * - arrays: "a, b, c" -> ["a", "b", "c"] (elements are coerced as well)
+ * - records: each value is coerced to the value schema
+ * - unions: the value is coerced to the first option it then matches
+ * - pipes (e.g. `.transform()`): the value is coerced to the input schema
+ *
+ * Values that cannot be converted are returned unchanged, so that schema validation reports them.
+ */
+export function coerceToSchema(value: unknown, schema: ZodType): unknown {
+	const target = unwrapSchema(schema);
+
+	if (target instanceof ZodObject) {
+		if (!isPlainObject(value)) {
+			return value;
+		}
+		const shape = target.shape as Record<string, ZodType>;
+		const result: Record<string, unknown> = { ...value };
+		for (const [key, fieldSchema] of Object.entries(shape)) {
+			if (key in result) {
+				result[key] = coerceToSchema(result[key], fieldSchema);
+			}
+		}
+		return result;
+	}
+
+	if (target instanceof ZodRecord) {
+		if (!isPlainObject(value)) {
+			return value;
+		}
+		const valueSchema = target.valueType as ZodType;
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [
+				key,
+				coerceToSchema(item, valueSchema),
+			]),
+		);
+	}
+
+	if (target instanceof ZodUnion) {
+		for (const option of target.options as ZodType[]) {
+			const coerced = coerceToSchema(value, option);
+			if (option.safeParse(coerced).success) {
+				return coerced;
+			}
+		}
+		return value;
+	}
+
+	if (target instanceof ZodArray) {
+		const items =
+			typeof value === "string"
+				? value
+						.split(",")
+						.map((item) => item.trim())
+						.filter((item) => item !== "")
+				: value;
+		if (!Array.isArray(items)) {
+			return value;
+		}
+		return items.map((item) => coerceToSchema(item, target.element as ZodType));
+	}
+
+	if (typeof value !== "string") {
+		return value;
+	}
+
+	if (target instanceof ZodNumber) {
+		const trimmed = value.trim();
+		const parsed = Number(trimmed);
+		return trimmed !== "" && !Number.isNaN(parsed) ? parsed : value;
+	}
+
+	if (target instanceof ZodBoolean) {
+		const normalized = value.trim().toLowerCase();
+		if (TRUE_VALUES.includes(normalized)) {
+			return true;
+		}
+		if (FALSE_VALUES.includes(normalized)) {
+			return false;
+		}
+	}
+
+	return value;
+}
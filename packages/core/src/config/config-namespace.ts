@@ -0,0 +1,24 @@
+import type { IConfig, IConfigNamespace, IConfigService } from "./types";
+import { getByPath } from "./utils";
+
+/**
+ * Typed accessor of a configuration namespace registered with `IConfigService.register()`.
+ */
+export class ConfigNamespace<TValue> implements IConfigNamespace<TValue> {
+	constructor(
+		private readonly config: IConfigService<IConfig>,
+		public readonly namespace: string,
+	) {}
+
+	get(): TValue {
+		return getByPath(this.config.getConfig(), this.namespace) as TValue;
+	}
+
+	subscribe(
+		listener: (newValue: TValue, oldValue: TValue | undefined) => void,
+	): () => void {
+		return this.config.subscribe(this.namespace, (newValue, oldValue) =>
+			listener(newValue as TValue, oldValue as TValue | undefined),
+		);
+	}
+}
@@ -0,0 +1,1065 @@
+/**
+ * @fileoverview Unit tests for ConfigService.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, jest } from "bun:test";
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import z from "zod";
+import { ConfigurationError } from "../errors";
+import { Logger } from "../logger";
+import {
+	DEFAULT_MASKING_CONFIG,
+	SensitiveDataMasker,
+	type SensitiveDataMaskingConfig,
+} from "../logger/sensitive-data-masker";
+import { ConfigService, createConfigService } from "./config-service";
+import { loggingConfigSchema } from "./schema";
+import { EnvSecretResolver } from "./secrets";
+import { EnvSource, FileSource, ObjectSource } from "./sources";
+import type { IConfig } from "./types";
+
+describe("ConfigService", () => {
+	const originalEnv = { ...process.env };
+
+	beforeEach(() => {
+		// Drop the shared instance so each test builds its own
+		ConfigService.reset();
+	});
+
+	afterEach(() => {
+		process.env = { ...originalEnv };
+	});
+
+	describe("default schema", () => {
+		it("should load logging level from environment", () => {
+			process.env["LOG_LEVEL"] = "debug";
+
+			const config = ConfigService.getInstance();
+
+			expect(config.validate()).toEqual({ success: true });
+			expect(config.getConfig().logging.level).toBe("debug");
+			expect(config.getLoggingConfig().level).toBe("debug");
+		});
+
+		it("should default logging level to info", () => {
+			delete process.env["LOG_LEVEL"];
+
+			const config = ConfigService.getInstance();
+
+			expect(config.getConfig().logging.level).toBe("info");
+		});
+
+		it("should return the same instance on subsequent calls", () => {
+			expect(ConfigService.getInstance()).toBe(ConfigService.getInstance());
+		});
+
+		it("should create a new shared instance after reset", () => {
+			const first = ConfigService.getInstance();
+
+			ConfigService.reset();
+
+			expect(ConfigService.getInstance()).not.toBe(first);
+		});
+	});
+
+	describe("validate", () => {
+		it("should report per-key configuration errors", () => {
+			process.env["LOG_LEVEL"] = "verbose";
+
+			const result = ConfigService.getInstance().validate();
+
+			expect(result.success).toBe(false);
+			expect(result.errors).toHaveLength(1);
+			expect(result.errors?.[0]).toBeInstanceOf(ConfigurationError);
+			expect(result.errors?.[0]?.configKey).toBe("logging.level");
+		});
+
+		it("should report every invalid key of a custom schema", () => {
+			process.env["LOG_LEVEL"] = "info";
+			const schema = z.object({
+				logging: z.object({ level: z.string() }),
+				port: z.number(),
+				database: z.object({ url: z.string() }),
+			});
+
+			const result = ConfigService.getInstance({ schema }).validate();
+
+			expect(result.success).toBe(false);
+			expect(result.errors?.map((error) => error.configKey)).toEqual([
+				"port",
+				"database",
+			]);
+		});
+	});
+
+	describe("getConfig", () => {
+		it("should return the parsed configuration for a custom schema", () => {
+			process.env["LOG_LEVEL"] = "warn";
+			const schema = z.object({
+				logging: z.object({
+					level: z.string(),
+					verbose: z.boolean().default(false),
+				}),
+			});
+
+			const config = ConfigService.getInstance({ schema });
+
+			expect(config.getConfig()).toEqual({
+				logging: { level: "warn", verbose: false },
+			});
+		});
+
+		it("should throw ConfigurationError when the configuration is invalid", () => {
+			process.env["LOG_LEVEL"] = "verbose";
+
+			const config = ConfigService.getInstance();
+
+			expect(() => config.getConfig()).toThrow(ConfigurationError);
+			expect(() => config.getConfig()).toThrow(/logging\.level/);
+		});
+	});
+
+	describe("getLoggingConfig", () => {
+		const loggingVariables = [
+			"LOG_LEVEL",
+			"LOG_FORMAT",
+			"LOG_FILE_ENABLED",
+			"LOG_FILE_NAME",
+			"LOG_FILE_MAX_SIZE",
+			"LOG_FILE_MAX_FILES",
+			"LOG_CONSOLE_ENABLED",
+			"LOG_CONSOLE_COLORIZE",
+			"LOG_MASK_ENABLED",
+			"LOG_MASK_STRING",
+			"LOG_MASK_PATTERNS",
+		];
+
+		beforeEach(() => {
+			for (const variable of loggingVariables) {
+				delete process.env[variable];
+			}
+		});
+
+		it("should return a complete default logging configuration", () => {
+			expect(ConfigService.getInstance().getLoggingConfig()).toEqual({
+				level: "info",
+				format: "json",
+				file: {
+					enabled: false,
+					filename: "app.log",
+					maxSize: "10m",
+					maxFiles: 5,
+				},
+				console: { enabled: true, colorize: false },
+				masking: { ...DEFAULT_MASKING_CONFIG, sensitiveValues: [] },
+			});
+		});
+
+		it("should build the logging configuration from environment variables", () => {
+			process.env["LOG_LEVEL"] = "warn";
+			process.env["LOG_FORMAT"] = "combined";
+			process.env["LOG_FILE_ENABLED"] = "true";
+			process.env["LOG_FILE_NAME"] = "service.log";
+			process.env["LOG_FILE_MAX_SIZE"] = "20m";
+			process.env["LOG_FILE_MAX_FILES"] = "3";
+			process.env["LOG_CONSOLE_ENABLED"] = "false";
+			process.env["LOG_CONSOLE_COLORIZE"] = "yes";
+			process.env["LOG_MASK_ENABLED"] = "1";
+			process.env["LOG_MASK_STRING"] = "[REDACTED]";
+			process.env["LOG_MASK_PATTERNS"] = "customerId, iban";
+
+			expect(ConfigService.getInstance().getLoggingConfig()).toEqual({
+				level: "warn",
+				format: "combined",
+				file: {
+					enabled: true,
+					filename: "service.log",
+					maxSize: "20m",
+					maxFiles: 3,
+				},
+				console: { enabled: false, colorize: true },
+				masking: {
+					enabled: true,
+					maskString: "[REDACTED]",
+					customPatterns: ["customerId", "iban"],
+					sensitiveValues: [],
+				},
+			});
+		});
+
+		it("should combine logging values from files and environment", () => {
+			process.env["LOG_LEVEL"] = "debug";
+
+			const config = ConfigService.getInstance({
+				sources: [
+					new ObjectSource("file", {
+						logging: { level: "error", file: { enabled: true } },
+					}),
+					new EnvSource(),
+				],
+			});
+
+			const loggingConfig = config.getLoggingConfig();
+			expect(loggingConfig.level).toBe("debug");
+			expect(loggingConfig.file).toEqual({
+				enabled: true,
+				filename: "app.log",
+				maxSize: "10m",
+				maxFiles: 5,
+			});
+		});
+
+		it("should report invalid logging values", () => {
+			process.env["LOG_FILE_MAX_SIZE"] = "huge";
+
+			const result = ConfigService.getInstance().validate();
+
+			expect(result.success).toBe(false);
+			expect(result.errors?.[0]?.configKey).toBe("logging.file.maxSize");
+		});
+
+		it("should fill logging defaults for custom schemas", () => {
+			const config = ConfigService.getInstance({
+				schema: z.object({ port: z.number().default(3000) }),
+			});
+
+			expect(config.getLoggingConfig().format).toBe("json");
+		});
+
+		it("should throw ConfigurationError for an invalid custom logging section", () => {
+			const config = ConfigService.getInstance({
+				schema: z.object({ logging: z.object({ format: z.string() }) }),
+				sources: [new ObjectSource("defaults", { logging: { format: "xml" } })],
+			});
+
+			expect(() => config.getLoggingConfig()).toThrow(ConfigurationError);
+		});
+
+		it("should create a Logger without glue code", () => {
+			const logger = new Logger(ConfigService.getInstance().getLoggingConfig());
+
+			expect(logger).toBeDefined();
+		});
+	});
+
+	describe("sources", () => {
+		const schema = z.object({
+			server: z.object({
+				host: z.string(),
+				port: z.coerce.number(),
+			}),
+			features: z.array(z.string()).default([]),
+		});
+
+		it("should merge sources deeply with later sources taking precedence", () => {
+			const config = ConfigService.getInstance({
+				schema,
+				sources: [
+					new ObjectSource("defaults", {
+						server: { host: "localhost", port: 3000 },
+						features: ["a", "b"],
+					}),
+					new ObjectSource("file", { features: ["c"] }),
+					new EnvSource({
+						env: { SERVER_PORT: "8080" },
+						mapping: { SERVER_PORT: "server.port" },
+					}),
+				],
+			});
+
+			expect(config.getConfig()).toEqual({
+				server: { host: "localhost", port: 8080 },
+				features: ["c"],
+			});
+		});
+
+		it("should ignore keys polluting the prototype of objects", () => {
+			const directory = mkdtempSync(join(tmpdir(), "config-pollution-"));
+			const filePath = join(directory, "config.json");
+			writeFileSync(
+				filePath,
+				'{"__proto__":{"polluted":"yes"},"server":{"host":"localhost","port":3000,"constructor":{"prototype":{"polluted":"yes"}}}}',
+			);
+
+			try {
+				const config = ConfigService.getInstance({
+					schema,
+					sources: [new FileSource(filePath)],
+				});
+
+				expect(config.getConfig().server).toEqual({
+					host: "localhost",
+					port: 3000,
+				});
+				expect(({} as Record<string, unknown>)["polluted"]).toBeUndefined();
+				expect(
+					(Object.prototype as Record<string, unknown>)["polluted"],
+				).toBeUndefined();
+			} finally {
+				rmSync(directory, { recursive: true, force: true });
+			}
+		});
+
+		it("should coerce environment values to the schema types", () => {
+			const config = ConfigService.getInstance({
+				schema,
+				sources: [
+					new EnvSource({
+						env: {
+							APP__SERVER__HOST: "example.com",
+							APP__SERVER__PORT: "8080",
+							APP__FEATURES: "search,export",
+						},
+					}),
+				],
+			});
+
+			expect(config.getConfig()).toEqual({
+				server: { host: "example.com", port: 8080 },
+				features: ["search", "export"],
+			});
+		});
+
+		it("should report which source supplied each key", () => {
+			const config = ConfigService.getInstance({
+				schema,
+				sources: [
+					new ObjectSource("defaults", {
+						server: { host: "localhost", port: 3000 },
+					}),
+					new ObjectSource("overrides", { server: { port: 9000 } }),
+				],
+			});
+
+			expect(config.getSource("server.host")).toBe("defaults");
+			expect(config.getSource("server.port")).toBe("overrides");
+			expect(config.getSource("features")).toBeUndefined();
+		});
+
+		it("should forget nested origins when an object is replaced by a value", () => {
+			const config = ConfigService.getInstance({
+				schema: z.object({ server: z.string() }),
+				sources: [
+					new ObjectSource("defaults", {
+						server: { host: "localhost", port: 3000 },
+					}),
+					new ObjectSource("overrides", { server: "localhost:3000" }),
+				],
+			});
+
+			expect(config.getSource("server")).toBe("overrides");
+			expect(config.getSource("server.host")).toBeUndefined();
+		});
+
+		it("should report sources failing to load as configuration errors", () => {
+			const config = ConfigService.getInstance({
+				schema,
+				sources: [
+					new ObjectSource("defaults", {
+						server: { host: "localhost", port: 3000 },
+					}),
+					new FileSource("/nonexistent/config.json"),
+				],
+			});
+
+			const result = config.validate();
+
+			expect(result.success).toBe(false);
+			expect(result.errors?.[0]?.message).toContain("/nonexistent/config.json");
+			expect(() => config.getConfig()).toThrow(ConfigurationError);
+		});
+	});
+
+	describe("reload and subscriptions", () => {
+		const schema = z.object({
+			server: z.object({ port: z.number() }),
+			logging: z.object({ level: z.string().default("info") }).prefault({}),
+		});
+		let env: NodeJS.ProcessEnv;
+
+		const createConfig = () =>
+			ConfigService.getInstance({
+				schema,
+				sources: [new EnvSource({ env })],
+			});
+
+		beforeEach(() => {
+			env = { APP__SERVER__PORT: "3000" };
+		});
+
+		it("should swap in a valid reloaded configuration", () => {
+			const config = createConfig();
+			env["APP__SERVER__PORT"] = "4000";
+
+			expect(config.reload()).toEqual({ success: true });
+			expect(config.getConfig().server.port).toBe(4000);
+		});
+
+		it("should keep the current configuration when the reloaded one is invalid", () => {
+			const config = createConfig();
+			env["APP__SERVER__PORT"] = "not-a-port";
+
+			const result = config.reload();
+
+			expect(result.success).toBe(false);
+			expect(result.errors?.[0]?.configKey).toBe("server.port");
+			expect(config.getConfig().server.port).toBe(3000);
+			expect(config.validate()).toEqual({ success: true });
+		});
+
+		it("should recover from an invalid initial configuration", () => {
+			env = {};
+			const config = createConfig();
+			expect(config.validate().success).toBe(false);
+
+			env["APP__SERVER__PORT"] = "5000";
+
+			expect(config.reload()).toEqual({ success: true });
+			expect(config.validate()).toEqual({ success: true });
+			expect(config.getConfig().server.port).toBe(5000);
+		});
+
+		it("should notify subscribers of changed keys only", () => {
+			const config = createConfig();
+			const portListener = jest.fn();
+			const levelListener = jest.fn();
+			const serverListener = jest.fn();
+			config.subscribe("server.port", portListener);
+			config.subscribe("logging.level", levelListener);
+			config.subscribe("server", serverListener);
+
+			env["APP__SERVER__PORT"] = "4000";
+			config.reload();
+
+			expect(portListener).toHaveBeenCalledWith(4000, 3000, "server.port");
+			expect(serverListener).toHaveBeenCalledWith(
+				{ port: 4000 },
+				{ port: 3000 },
+				"server",
+			);
+			expect(levelListener).not.toHaveBeenCalled();
+		});
+
+		it("should not notify subscribers when nothing changed or after unsubscribe", () => {
+			const config = createConfig();
+			const listener = jest.fn();
+			const unsubscribe = config.subscribe("server.port", listener);
+
+			config.reload();
+			unsubscribe();
+			env["APP__SERVER__PORT"] = "4000";
+			config.reload();
+
+			expect(listener).not.toHaveBeenCalled();
+		});
+
+		it("should notify every subscriber and report the errors of throwing ones", () => {
+			const config = createConfig();
+			const failure = new Error("Listener failed");
+			const listener = jest.fn();
+			config.subscribe("server.port", () => {
+				throw failure;
+			});
+			config.subscribe("server.port", listener);
+
+			env["APP__SERVER__PORT"] = "4000";
+			const result = config.reload();
+
+			expect(result.success).toBe(true);
+			expect(result.errors).toHaveLength(1);
+			expect(result.errors?.[0]).toBeInstanceOf(ConfigurationError);
+			expect(result.errors?.[0]?.configKey).toBe("server.port");
+			expect(result.errors?.[0]?.cause).toBe(failure);
+			expect(listener).toHaveBeenCalledWith(4000, 3000, "server.port");
+			expect(config.getConfig().server.port).toBe(4000);
+		});
+
+		it("should update the source of reloaded keys", () => {
+			const config = createConfig();
+			expect(config.getSource("logging.level")).toBeUndefined();
+
+			env["APP__LOGGING__LEVEL"] = "debug";
+			config.reload();
+
+			expect(config.getSource("logging.level")).toBe("env");
+		});
+	});
+
+	describe("watch", () => {
+		const schema = z.object({ server: z.object({ port: z.number() }) });
+		let directory: string;
+		let filePath: string;
+		let stopWatching: (() => void) | undefined;
+
+		beforeEach(() => {
+			directory = mkdtempSync(join(tmpdir(), "config-watch-"));
+			filePath = join(directory, "config.json");
+			writeFileSync(filePath, JSON.stringify({ server: { port: 3000 } }));
+		});
+
+		afterEach(() => {
+			stopWatching?.();
+			stopWatching = undefined;
+			rmSync(directory, { recursive: true, force: true });
+		});
+
+		const updateFile = (content: string, mtimeSeconds: number) => {
+			writeFileSync(filePath, content);
+			utimesSync(filePath, mtimeSeconds, mtimeSeconds);
+		};
+
+		const waitFor = async (condition: () => boolean) => {
+			for (let i = 0; i < 100 && !condition(); i++) {
+				await new Promise((resolve) => setTimeout(resolve, 10));
+			}
+		};
+
+		// Let the watcher take its first snapshot of the file before changing it
+		const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+		it("should reload when the process receives SIGHUP", () => {
+			const config = ConfigService.getInstance({
+				schema,
+				sources: [new FileSource(filePath)],
+			});
+			stopWatching = config.watch({ files: false });
+
+			writeFileSync(filePath, JSON.stringify({ server: { port: 4000 } }));
+			process.emit("SIGHUP", "SIGHUP");
+
+			expect(config.getConfig().server.port).toBe(4000);
+		});
+
+		it("should report the errors of throwing subscribers to onError", () => {
+			const config = ConfigService.getInstance({
+				schema,
+				sources: [new FileSource(filePath)],
+			});
+			config.subscribe("server.port", () => {
+				throw new Error("Listener failed");
+			});
+			const onError = jest.fn();
+			stopWatching = config.watch({ files: false, onError });
+
+			writeFileSync(filePath, JSON.stringify({ server: { port: 4000 } }));
+			process.emit("SIGHUP", "SIGHUP");
+
+			expect(onError).toHaveBeenCalledTimes(1);
+			expect(onError.mock.calls[0]?.[0]?.[0]?.message).toBe(
+				"Change listener of server.port failed: Listener failed",
+			);
+			expect(config.getConfig().server.port).toBe(4000);
+		});
+
+		it("should stop reloading once the watch is stopped", () => {
+			const config = ConfigService.getInstance({
+				schema,
+				sources: [new FileSource(filePath)],
+			});
+			const stop = config.watch({ files: false });
+			stop();
+
+			writeFileSync(filePath, JSON.stringify({ server: { port: 4000 } }));
+			process.emit("SIGHUP", "SIGHUP");
+
+			expect(config.getConfig().server.port).toBe(3000);
+		});
+
+		it("should reload when a watched file changes", async () => {
+			const config = ConfigService.getInstance({
+				schema,
+				sources: [new FileSource(filePath)],
+			});
+			const listener = jest.fn();
+			config.subscribe("server.port", listener);
+			stopWatching = config.watch({ intervalMs: 10, signal: false });
+			await settle();
+
+			updateFile(JSON.stringify({ server: { port: 4000 } }), 2000000000);
+			await waitFor(() => listener.mock.calls.length > 0);
+
+			expect(listener).toHaveBeenCalledWith(4000, 3000, "server.port");
+		});
+
+		it("should report rejected reloads to onError", async () => {
+			const config = ConfigService.getInstance({
+				schema,
+				sources: [new FileSource(filePath)],
+			});
+			const onError = jest.fn();
+			stopWatching = config.watch({ intervalMs: 10, signal: false, onError });
+			await settle();
+
+			updateFile("{ invalid", 2000000000);
+			await waitFor(() => onError.mock.calls.length > 0);
+
+			expect(onError).toHaveBeenCalledTimes(1);
+			expect(onError.mock.calls[0]?.[0]?.[0]).toBeInstanceOf(
+				ConfigurationError,
+			);
+			expect(config.getConfig().server.port).toBe(3000);
+		});
+	});
+
+	describe("secrets", () => {
+		const schema = z.object({
+			database: z.object({ password: z.string(), host: z.string() }),
+			cache: z.object({ port: z.number() }).optional(),
+		});
+
+		it("should resolve secret references and flag them", () => {
+			const config = ConfigService.getInstance({
+				schema,
+				sources: [
+					new ObjectSource("defaults", {
+						// biome-ignore lint/suspicious/noTemplateCurlyInString: secret placeholder
+						database: { password: "${env:DB_PASSWORD}", host: "db" },
+						cache: { port: "secret://env/CACHE_PORT" },
+					}),
+				],
+				secretResolvers: [
+					new EnvSecretResolver({
+						DB_PASSWORD: "config-service-s3cr3t",
+						CACHE_PORT: "6379",
+					}),
+				],
+			});
+
+			expect(config.getConfig()).toEqual({
+				database: { password: "config-service-s3cr3t", host: "db" },
+				cache: { port: 6379 },
+			});
+			expect(config.isSecret("database.password")).toBe(true);
+			expect(config.isSecret("cache.port")).toBe(true);
+			expect(config.isSecret("database.host")).toBe(false);
+		});
+
+		it("should mask whole-value secrets in the logging configuration masker", () => {
+			const config = createConfigService({
+				schema,
+				sources: [
+					new ObjectSource("defaults", {
+						database: {
+							password: "secret://env/DB_PASSWORD",
+							// biome-ignore lint/suspicious/noTemplateCurlyInString: secret placeholder
+							host: "${env:DB_HOST}.internal",
+						},
+					}),
+				],
+				secretResolvers: [
+					new EnvSecretResolver({
+						DB_PASSWORD: "masked-everywhere",
+						DB_HOST: "localhost",
+					}),
+				],
+			});
+
+			const masker = new SensitiveDataMasker(config.getLoggingConfig().masking);
+
+			expect(
+				masker.maskMessage("listening on localhost with masked-everywhere"),
+			).toBe("listening on localhost with ***MASKED***");
+			expect(masker.maskMetadata({ note: "masked-everywhere" })).toEqual({
+				note: "***MASKED***",
+			});
+		});
+
+		it("should mask whole-value placeholders, including in masking configs passed to subscribers", () => {
+			const secretsEnv: NodeJS.ProcessEnv = { DB_PASSWORD: "pw-first-secret" };
+			const config = createConfigService({
+				schema: z.object({
+					logging: loggingConfigSchema.prefault({}),
+					database: z.object({ password: z.string() }),
+				}),
+				sources: [
+					new ObjectSource("defaults", {
+						// biome-ignore lint/suspicious/noTemplateCurlyInString: secret placeholder
+						database: { password: "${env:DB_PASSWORD}" },
+					}),
+				],
+				secretResolvers: [new EnvSecretResolver(secretsEnv)],
+			});
+			let masking: SensitiveDataMaskingConfig | undefined;
+			config.subscribe("logging.masking", (value) => {
+				masking = value as SensitiveDataMaskingConfig;
+			});
+
+			expect(
+				new SensitiveDataMasker(config.getLoggingConfig().masking).maskMessage(
+					"connecting with pw-first-secret",
+				),
+			).toBe("connecting with ***MASKED***");
+
+			secretsEnv["DB_PASSWORD"] = "pw-second-secret";
+			config.reload();
+
+			expect(masking?.sensitiveValues).toEqual(["pw-second-secret"]);
+			expect(
+				new SensitiveDataMasker(masking).maskMessage(
+					"connecting with pw-second-secret",
+				),
+			).toBe("connecting with ***MASKED***");
+		});
+
+		it("should not share secret values between instances", () => {
+			createConfigService({
+				schema,
+				sources: [
+					new ObjectSource("defaults", {
+						database: { password: "secret://env/DB_PASSWORD", host: "db" },
+					}),
+				],
+				secretResolvers: [
+					new EnvSecretResolver({ DB_PASSWORD: "first-s3cr3t" }),
+				],
+			});
+			const other = createConfigService({
+				schema,
+				sources: [
+					new ObjectSource("defaults", {
+						database: { password: "plain", host: "db" },
+					}),
+				],
+			});
+
+			const masker = new SensitiveDataMasker(other.getLoggingConfig().masking);
+
+			expect(masker.maskMessage("first-s3cr3t")).toBe("first-s3cr3t");
+			expect(new SensitiveDataMasker().maskMessage("first-s3cr3t")).toBe(
+				"first-s3cr3t",
+			);
+		});
+
+		it("should report unresolved secrets as configuration errors", () => {
+			const config = ConfigService.getInstance({
+				schema,
+				sources: [
+					new ObjectSource("defaults", {
+						database: { password: "secret://env/MISSING", host: "db" },
+					}),
+				],
+				secretResolvers: [new EnvSecretResolver({})],
+			});
+
+			const result = config.validate();
+
+			expect(result.success).toBe(false);
+			expect(result.errors?.[0]?.configKey).toBe("database.password");
+		});
+	});
+
+	describe("createConfigService", () => {
+		const schema = z.object({ port: z.number() });
+
+		it("should create independent instances", () => {
+			const first = createConfigService({
+				schema,
+				sources: [new ObjectSource("defaults", { port: 3000 })],
+			});
+			const second = createConfigService({
+				schema,
+				sources: [new ObjectSource("defaults", { port: 4000 })],
+			});
+
+			expect(first).not.toBe(second);
+			expect(first).not.toBe(ConfigService.getInstance());
+			expect(first.getConfig().port).toBe(3000);
+			expect(second.getConfig().port).toBe(4000);
+		});
+
+		it("should not load .env files unless asked to", () => {
+			const directory = mkdtempSync(join(tmpdir(), "config-dotenv-"));
+			const envPath = join(directory, ".env");
+			writeFileSync(envPath, "CONFIG_TEST_DOTENV_PORT=5000\n");
+			const sources = [
+				new EnvSource({ mapping: { CONFIG_TEST_DOTENV_PORT: "port" } }),
+			];
+
+			try {
+				expect(
+					createConfigService({ schema, sources }).validate().success,
+				).toBe(false);
+
+				const config = createConfigService({
+					schema,
+					sources,
+					dotenv: { path: envPath, quiet: true },
+				});
+
+				expect(config.getConfig().port).toBe(5000);
+			} finally {
+				delete process.env["CONFIG_TEST_DOTENV_PORT"];
+				rmSync(directory, { recursive: true, force: true });
+			}
+		});
+
+		it("should stop the watches of the shared instance on reset", () => {
+			const env: NodeJS.ProcessEnv = { APP__PORT: "3000" };
+			const config = ConfigService.getInstance({
+				schema,
+				sources: [new EnvSource({ env })],
+			});
+			config.watch({ files: false });
+
+			ConfigService.reset();
+			env["APP__PORT"] = "4000";
+			process.emit("SIGHUP", "SIGHUP");
+
+			expect(config.getConfig().port).toBe(3000);
+		});
+	});
+
+	describe("snapshot export", () => {
+		const schema = z.object({
+			server: z.object({
+				port: z.number().describe("HTTP port"),
+				host: z.string().default("0.0.0.0").describe("Bind address"),
+			}),
+			database: z.object({
+				username: z.string(),
+				password: z.string().describe("Database password"),
+				url: z.string(),
+			}),
+			cache: z.object({ port: z.number() }),
+			auth: z.object({ issuer: z.string() }),
+			contact: z.string(),
+			tags: z.array(z.string()),
+			logging: z
+				.object({
+					masking: z
+						.object({ customPatterns: z.array(z.string()).default([]) })
+						.prefault({}),
+				})
+				.prefault({}),
+		});
+
+		const createConfig = (customPatterns: string[] = []) =>
+			createConfigService({
+				schema,
+				sources: [
+					new ObjectSource("defaults", {
+						server: { port: 3000 },
+						database: {
+							username: "app",
+							password: "secret://env/DB_PASSWORD",
+							url: "postgres://db/app",
+						},
+						cache: { port: "secret://env/CACHE_PORT" },
+						auth: { issuer: "https://issuer" },
+						contact: "ops@example.com",
+						tags: ["a", "b"],
+						logging: { masking: { customPatterns } },
+					}),
+					new ObjectSource("overrides", { server: { port: 8080 } }),
+				],
+				secretResolvers: [
+					new EnvSecretResolver({
+						DB_PASSWORD: "snapshot-s3cr3t",
+						CACHE_PORT: "6379",
+					}),
+				],
+			});
+
+		it("should export the configuration with sensitive values redacted", () => {
+			expect(createConfig().toJSON()).toEqual({
+				server: { port: 8080, host: "0.0.0.0" },
+				database: {
+					username: "***MASKED***",
+					password: "***MASKED***",
+					url: "postgres://db/app",
+				},
+				cache: { port: "***MASKED***" },
+				auth: "***MASKED***",
+				contact: "***MASKED***",
+				tags: ["a", "b"],
+				logging: { masking: { customPatterns: [] } },
+			});
+		});
+
+		it("should redact secrets inside arrays", () => {
+			const config = createConfigService({
+				schema: z.object({ replicaPorts: z.array(z.number()) }),
+				sources: [
+					new ObjectSource("defaults", {
+						replicaPorts: [5432, "secret://env/REPLICA_PORT"],
+					}),
+				],
+				secretResolvers: [new EnvSecretResolver({ REPLICA_PORT: "6432" })],
+			});
+
+			expect(config.getConfig().replicaPorts).toEqual([5432, 6432]);
+			expect(config.toJSON()).toEqual({
+				replicaPorts: [5432, "***MASKED***"],
+			});
+		});
+
+		it("should apply the logging custom masking patterns", () => {
+			const snapshot = createConfig(["^url$"]).toJSON();
+
+			expect(snapshot["database"]).toEqual({
+				username: "***MASKED***",
+				password: "***MASKED***",
+				url: "***MASKED***",
+			});
+		});
+
+		it("should be used by JSON.stringify", () => {
+			const config = createConfig();
+
+			expect(JSON.parse(JSON.stringify(config))).toEqual(config.toJSON());
+		});
+
+		it("should describe every key with its value, source and description", () => {
+			const entries = createConfig().describe();
+
+			expect(entries.map((entry) => entry.key)).toEqual([
+				"server.port",
+				"server.host",
+				"database.username",
+				"database.password",
+				"database.url",
+				"cache.port",
+				"auth.issuer",
+				"contact",
+				"tags",
+				"logging.masking.customPatterns",
+			]);
+			expect(entries[0]).toEqual({
+				key: "server.port",
+				value: 8080,
+				source: "overrides",
+				description: "HTTP port",
+				secret: false,
+			});
+			expect(entries[1]).toEqual({
+				key: "server.host",
+				value: "0.0.0.0",
+				source: undefined,
+				description: "Bind address",
+				secret: false,
+			});
+			expect(entries[3]).toEqual({
+				key: "database.password",
+				value: "***MASKED***",
+				source: "defaults",
+				description: "Database password",
+				secret: true,
+			});
+			expect(entries[6]?.value).toBe("***MASKED***");
+		});
+	});
+
+	describe("namespaces", () => {
+		const vectorstoreSchema = z.object({
+			url: z.string().describe("Vector store URL"),
+			dimensions: z.number().int().positive(),
+			collections: z.array(z.string()).default([]),
+		});
+
+		it("should provide typed values merged over the registered defaults", () => {
+			const config = createConfigService({
+				sources: [
+					new EnvSource({
+						env: {
+							APP__VECTORSTORE__URL: "http://localhost:6333",
+							APP__VECTORSTORE__COLLECTIONS: "docs, faq",
+						},
+					}),
+				],
+			});
+
+			const vectorstore = config.register("vectorstore", vectorstoreSchema, {
+				dimensions: 1536,
+			});
+
+			expect(vectorstore.namespace).toBe("vectorstore");
+			expect(vectorstore.get()).toEqual({
+				url: "http://localhost:6333",
+				dimensions: 1536,
+				collections: ["docs", "faq"],
+			});
+			expect(config.getSource("vectorstore.url")).toBe("env");
+			expect(config.getSource("vectorstore.dimensions")).toBe(
+				"defaults:vectorstore",
+			);
+			expect(config.getConfig()["logging"]).toBeDefined();
+		});
+
+		it("should aggregate the errors of every registered namespace", () => {
+			const config = createConfigService({
+				sources: [
+					new ObjectSource("file", {
+						logging: { level: "verbose" },
+						vectorstore: { dimensions: -1 },
+					}),
+				],
+			});
+
+			config.register("vectorstore", vectorstoreSchema);
+			config.register(
+				"ai.llm",
+				z.object({ model: z.string(), temperature: z.number() }),
+				{ temperature: 0.2 },
+			);
+			const result = config.validate();
+
+			expect(result.success).toBe(false);
+			expect(result.errors?.map((error) => error.configKey)).toEqual([
+				"logging.level",
+				"vectorstore.url",
+				"vectorstore.dimensions",
+				"ai.llm.model",
+			]);
+			expect(() => config.getConfig()).toThrow(ConfigurationError);
+		});
+
+		it("should reject a namespace registered twice", () => {
+			const config = createConfigService({ sources: [] });
+			config.register("vectorstore", vectorstoreSchema);
+
+			expect(() => config.register("vectorstore", vectorstoreSchema)).toThrow(
+				"Configuration namespace vectorstore is already registered",
+			);
+		});
+
+		it("should notify namespace subscribers on reload", () => {
+			const values: IConfig = {
+				vectorstore: { url: "http://a", dimensions: 8 },
+			};
+			const config = createConfigService({
+				sources: [{ name: "test", load: () => structuredClone(values) }],
+			});
+			const vectorstore = config.register("vectorstore", vectorstoreSchema);
+			const listener = jest.fn();
+			vectorstore.subscribe(listener);
+
+			values["vectorstore"] = { url: "http://b", dimensions: 8 };
+			config.reload();
+
+			expect(listener).toHaveBeenCalledWith(
+				{ url: "http://b", dimensions: 8, collections: [] },
+				{ url: "http://a", dimensions: 8, collections: [] },
+			);
+			expect(vectorstore.get().url).toBe("http://b");
+		});
+
+		it("should describe namespace keys with their schema description", () => {
+			const config = createConfigService({
+				sources: [
+					new ObjectSource("file", {
+						vectorstore: { url: "http://a", dimensions: 8 },
+					}),
+				],
+			});
+			config.register("vectorstore", vectorstoreSchema);
+
+			const entry = config
+				.describe()
+				.find((candidate) => candidate.key === "vectorstore.url");
+
+			expect(entry?.description).toBe("Vector store URL");
+		});
+	});
+});
@@ -1,52 +1,651 @@
-import type { IConfig, IConfigService } from "./types";
+import { type Stats, unwatchFile, watchFile } from "node:fs";
+import { isDeepStrictEqual } from "node:util";
+import type { input, output, ZodError, ZodType } from "zod";
 
-import dotenv from "dotenv";
+import dotenv, { type DotenvConfigOptions } from "dotenv";
+import { ConfigurationError } from "../errors";
+import type { LoggingConfig } from "../logger";
+import {
+	DEFAULT_MASKING_CONFIG,
+	SensitiveDataMasker,
+	type SensitiveDataMaskingConfig,
+} from "../logger/sensitive-data-masker";
+import { coerceToSchema } from "./coerce";
+import { ConfigNamespace } from "./config-namespace";
+import {
+	type DefaultConfig,
+	defaultConfigSchema,
+	loggingConfigSchema,
+} from "./schema";
+import { getSchemaDescription } from "./schema-utils";
+import { EnvSecretResolver, FileSecretResolver } from "./secrets";
+import { resolveSecrets } from "./secrets/resolve-secrets";
+import { EnvSource } from "./sources";
+import type {
+	ConfigChangeListener,
+	ConfigEntry,
+	ConfigValidationResult,
+	ConfigWatchOptions,
+	IConfig,
+	IConfigNamespace,
+	IConfigService,
+	IConfigSource,
+	ISecretResolver,
+} from "./types";
+import { getByPath, isPlainObject, mergeWithOrigins, setByPath } from "./utils";
 
-// Load environment variables
-dotenv.config();
+/**
+ * Options for creating a ConfigService.
+ */
+export interface ConfigServiceOptions<TConfig extends IConfig> {
+	/** Schema used to validate the configuration (default: defaultConfigSchema) */
+	schema?: ZodType<TConfig>;
+	/**
+	 * Configuration sources merged deeply in order, later sources taking precedence
+	 * (default: environment variables only). See `createSourceChain()`.
+	 */
+	sources?: IConfigSource[];
+	/**
+	 * Resolvers of the secret references found in configuration values
+	 * (default: file and environment variable resolvers).
+	 */
+	secretResolvers?: ISecretResolver[];
+	/**
+	 * Load a .env file into process.env before the sources are loaded
+	 * (default: false). Pass dotenv options to customize the path, override, etc.
+	 */
+	dotenv?: boolean | DotenvConfigOptions;
+}
+
+/**
+ * Schema and defaults of a namespace registered with `ConfigService.register()`.
+ */
+interface RegisteredNamespace {
+	schema: ZodType;
+	defaults: IConfig | undefined;
+}
+
+/**
+ * Result of loading and merging every configuration source.
+ */
+interface LoadedConfig {
+	values: IConfig;
+	origins: Map<string, string>;
+	secretKeys: Set<string>;
+	secretValues: Set<string>;
+	errors: ConfigurationError[];
+}
 
-export class ConfigService implements IConfigService {
-	private static instance: IConfigService;
-	private config: IConfig;
+/**
+ * Configuration service merging configuration sources and validating the result against a Zod schema.
+ *
+ * @example
+ * ```typescript
+ * const schema = z.object({
+ *     logging: z.object({ level: z.enum(["error", "warn", "info", "debug"]) }),
+ *     port: z.coerce.number().default(3000),
+ * });
+ * const config = createConfigService({
+ *     schema,
+ *     sources: createSourceChain({ files: ["config/config.yaml"] }),
+ *     dotenv: true,
+ * });
+ * const result = config.validate();
+ * if (!result.success) {
+ *     for (const error of result.errors ?? []) {
+ *         console.error(`${error.configKey}: ${error.message}`);
+ *     }
+ * }
+ * const port = config.getConfig().port; // typed as number
+ * const portSource = config.getSource("port"); // e.g. "file:config/config.yaml"
+ *
+ * // Secret references are resolved; whole-value ones are masked wherever they appear
+ * // by a Logger created from getLoggingConfig():
+ * // { "database": { "password": "secret://file/run/secrets/db_password" } }
+ * // { "database": { "url": "postgres://app:${env:DB_PASSWORD}@db/app" } }
+ *
+ * // Reload on file changes and SIGHUP
+ * const stopWatching = config.watch();
+ *
+ * // Let a module own its part of the configuration
+ * const vectorstore = config.register("vectorstore", z.object({ url: z.string() }));
+ * const url = vectorstore.get().url; // typed as string
+ *
+ * // Dump the effective configuration, sensitive values redacted
+ * console.table(config.describe());
+ * ```
+ */
+export class ConfigService<TConfig extends IConfig = DefaultConfig>
+	implements IConfigService<TConfig>
+{
+	private static instance: ConfigService<IConfig> | undefined;
+	private readonly schema: ZodType<TConfig>;
+	private readonly sources: IConfigSource[];
+	private readonly secretResolvers: ISecretResolver[];
+	private readonly namespaces = new Map<string, RegisteredNamespace>();
+	private readonly listeners = new Map<string, Set<ConfigChangeListener>>();
+	private readonly watchStops = new Set<() => void>();
+	private origins = new Map<string, string>();
+	private secretKeys = new Set<string>();
+	private secretValues = new Set<string>();
+	private config: TConfig | undefined;
+	private errors: ConfigurationError[] = [];
 
-	private constructor() {
-		this.config = this.loadConfig();
-		this.validateConfig();
+	constructor(options: ConfigServiceOptions<TConfig> = {}) {
+		if (options.dotenv) {
+			dotenv.config(options.dotenv === true ? {} : options.dotenv);
+		}
+		this.schema =
+			options.schema ?? (defaultConfigSchema as unknown as ZodType<TConfig>);
+		this.sources = options.sources ?? [new EnvSource()];
+		this.secretResolvers = options.secretResolvers ?? [
+			new FileSecretResolver(),
+			new EnvSecretResolver(),
+		];
+		this.applyConfig(this.loadConfig());
 	}
 
-	static getInstance(): IConfigService {
+	/**
+	 * Get the shared ConfigService instance.
+	 * Use `createConfigService()` for independent instances.
+	 * @param options Options, only taken into account when the instance is created.
+	 */
+	static getInstance<TConfig extends IConfig = DefaultConfig>(
+		options: ConfigServiceOptions<TConfig> = {},
+	): IConfigService<TConfig> {
 		if (!ConfigService.instance) {
-			ConfigService.instance = new ConfigService();
+			ConfigService.instance = new ConfigService<IConfig>(
+				options as ConfigServiceOptions<IConfig>,
+			);
 		}
-		return ConfigService.instance;
+		return ConfigService.instance as unknown as IConfigService<TConfig>;
 	}
 
-	validate(): { success: boolean; errors?: string[] } {
-		try {
-			this.validateConfig();
+	/**
+	 * Drop the shared instance, stopping its watches, so that the next
+	 * `getInstance()` call creates a new one. Intended for tests.
+	 */
+	static reset(): void {
+		if (ConfigService.instance) {
+			for (const stop of [...ConfigService.instance.watchStops]) {
+				stop();
+			}
+		}
+		ConfigService.instance = undefined;
+	}
+
+	validate(): ConfigValidationResult {
+		if (this.errors.length === 0) {
 			return { success: true };
-		} catch (error) {
-			return { success: false, errors: [(error as Error).message] };
 		}
+		return { success: false, errors: [...this.errors] };
+	}
+
+	getSource(keyPath: string): string | undefined {
+		return this.origins.get(keyPath);
+	}
+
+	isSecret(keyPath: string): boolean {
+		return this.secretKeys.has(keyPath);
+	}
+
+	/**
+	 * Get the effective configuration with sensitive values redacted
+	 * by the SensitiveDataMasker rules and the logging masking patterns.
+	 * Secret values are always redacted.
+	 * @throws ConfigurationError if the configuration is invalid.
+	 */
+	toJSON(): IConfig {
+		const maskingConfig = this.getRedactionConfig();
+		const redacted = new SensitiveDataMasker(maskingConfig).maskMetadata(
+			this.getConfig(),
+		) as IConfig;
+		for (const key of this.secretKeys) {
+			if (getByPath(redacted, key) !== undefined) {
+				setByPath(redacted, key, maskingConfig.maskString);
+			}
+		}
+		return redacted;
+	}
+
+	/**
+	 * List every configuration key (leaf value) with its redacted value,
+	 * the source that supplied it and its schema description.
+	 * @throws ConfigurationError if the configuration is invalid.
+	 */
+	describe(): ConfigEntry[] {
+		const redacted = this.toJSON();
+		return this.listKeys(this.getConfig()).map((key) => ({
+			key,
+			value: this.getRedactedValue(redacted, key),
+			source: this.getSource(key),
+			description: this.getDescription(key),
+			secret: this.isSecret(key),
+		}));
 	}
 
-	getConfig(): IConfig {
+	/**
+	 * Get the validated configuration.
+	 * @throws ConfigurationError if the configuration does not match the schema.
+	 */
+	getConfig(): TConfig {
+		if (!this.config) {
+			const [firstError] = this.errors;
+			throw new ConfigurationError(
+				`Invalid configuration: ${this.errors.map((error) => `${error.configKey ?? "<root>"}: ${error.message}`).join("; ")}`,
+				firstError?.configKey,
+			);
+		}
 		return this.config;
 	}
 
-	getLoggingConfig(): IConfig {
-		return this.config["logging"] as IConfig;
+	/**
+	 * Get the complete logging configuration, filling missing values with their defaults.
+	 * The masking configuration includes the resolved secret values, masked wherever they appear.
+	 * @throws ConfigurationError if the logging configuration is invalid.
+	 */
+	getLoggingConfig(): LoggingConfig {
+		const result = loggingConfigSchema.safeParse(
+			this.getConfig()["logging"] ?? {},
+		);
+		if (!result.success) {
+			const [firstError] = this.toConfigurationErrors(result.error, "logging");
+			throw (
+				firstError ?? new ConfigurationError("Invalid logging configuration")
+			);
+		}
+		return {
+			...result.data,
+			masking: {
+				...result.data.masking,
+				sensitiveValues: [...this.secretValues],
+			},
+		};
+	}
+
+	/**
+	 * Register the schema of a configuration namespace owned by a module.
+	 * Its values are read from the sources under the namespace key, filled with
+	 * `defaults` where no source sets one (reported by `getSource()` as "defaults:<namespace>"),
+	 * then validated together with the rest of the configuration:
+	 * `validate()` reports the errors of every namespace.
+	 * @returns Typed accessor of the namespace values.
+	 * @throws ConfigurationError if the namespace is already registered.
+	 *
+	 * @example
+	 * ```typescript
+	 * const vectorstore = config.register(
+	 *     "vectorstore",
+	 *     z.object({ url: z.string().url(), dimensions: z.number().int() }),
+	 *     { dimensions: 1536 },
+	 * );
+	 * // APP__VECTORSTORE__URL=http://localhost:6333
+	 * vectorstore.get().dimensions; // 1536
+	 * ```
+	 */
+	register<TSchema extends ZodType>(
+		namespace: string,
+		schema: TSchema,
+		defaults?: Partial<input<TSchema>>,
+	): IConfigNamespace<output<TSchema>> {
+		if (this.namespaces.has(namespace)) {
+			throw new ConfigurationError(
+				`Configuration namespace ${namespace} is already registered`,
+				namespace,
+			);
+		}
+		this.namespaces.set(namespace, {
+			schema,
+			defaults: defaults as IConfig | undefined,
+		});
+		this.applyConfig(this.loadConfig());
+		return new ConfigNamespace<output<TSchema>>(
+			this as IConfigService<IConfig>,
+			namespace,
+		);
+	}
+
+	/**
+	 * Reload every source and swap in the new configuration if it is valid.
+	 * An invalid configuration is rejected and the current one is kept.
+	 * Subscribers of the keys whose value changed are notified after the swap;
+	 * the errors they throw are returned, wrapped in ConfigurationErrors keyed by their key path.
+	 */
+	reload(): ConfigValidationResult {
+		const loaded = this.loadConfig();
+		const result = this.parseConfig(loaded);
+		if (!result.config) {
+			return { success: false, errors: result.errors };
+		}
+
+		const previous = this.withSecretValues(
+			this.config ?? {},
+			this.secretValues,
+		);
+		this.config = result.config;
+		this.errors = [];
+		this.origins = loaded.origins;
+		this.secretKeys = loaded.secretKeys;
+		this.secretValues = loaded.secretValues;
+		const listenerErrors = this.notifyListeners(
+			previous,
+			this.withSecretValues(result.config, this.secretValues),
+		);
+		return listenerErrors.length > 0
+			? { success: true, errors: listenerErrors }
+			: { success: true };
+	}
+
+	/**
+	 * Subscribe to changes of the value at a dot-separated key path.
+	 * The listener is called after a reload changed the value (compared deeply).
+	 * As in `getLoggingConfig()`, the logging masking configuration includes the resolved secret values,
+	 * so that its subscribers are also notified when a secret changes.
+	 * @returns Function removing the subscription.
+	 *
+	 * @example
+	 * ```typescript
+	 * const logger = new Logger(config.getLoggingConfig());
+	 * config.subscribe("logging.level", (level) => logger.setLevel(level as LogLevel));
+	 * config.subscribe("logging.masking", (masking) =>
+	 *     logger.setMaskingConfig(masking as SensitiveDataMaskingConfig),
+	 * );
+	 * ```
+	 */
+	subscribe(keyPath: string, listener: ConfigChangeListener): () => void {
+		let listeners = this.listeners.get(keyPath);
+		if (!listeners) {
+			listeners = new Set();
+			this.listeners.set(keyPath, listeners);
+		}
+		listeners.add(listener);
+		return () => {
+			listeners.delete(listener);
+			if (listeners.size === 0) {
+				this.listeners.delete(keyPath);
+			}
+		};
+	}
+
+	/**
+	 * Reload the configuration when a file of a file-based source changes
+	 * or when the process receives a signal (SIGHUP by default).
+	 * @returns Function stopping the watch.
+	 */
+	watch(options: ConfigWatchOptions = {}): () => void {
+		const reload = () => {
+			const result = this.reload();
+			if (!result.success || result.errors) {
+				options.onError?.(result.errors ?? []);
+			}
+		};
+
+		const filePaths =
+			options.files === false
+				? []
+				: this.sources
+						.map((source) => source.filePath)
+						.filter((filePath) => filePath !== undefined);
+		const onFileChange = (current: Stats, previous: Stats) => {
+			if (current.mtimeMs !== previous.mtimeMs) {
+				reload();
+			}
+		};
+		for (const filePath of filePaths) {
+			watchFile(
+				filePath,
+				{ interval: options.intervalMs ?? 1000, persistent: false },
+				onFileChange,
+			);
+		}
+
+		const signal = options.signal ?? "SIGHUP";
+		if (signal) {
+			process.on(signal, reload);
+		}
+
+		const stop = () => {
+			for (const filePath of filePaths) {
+				unwatchFile(filePath, onFileChange);
+			}
+			if (signal) {
+				process.off(signal, reload);
+			}
+			this.watchStops.delete(stop);
+		};
+		this.watchStops.add(stop);
+		return stop;
+	}
+
+	private applyConfig(loaded: LoadedConfig): void {
+		this.origins = loaded.origins;
+		this.secretKeys = loaded.secretKeys;
+		this.secretValues = loaded.secretValues;
+		this.validateConfig(loaded);
+	}
+
+	protected validateConfig(loaded: LoadedConfig): void {
+		const result = this.parseConfig(loaded);
+		this.config = result.config;
+		this.errors = result.errors;
+	}
+
+	/**
+	 * Load every source and merge them deeply over the defaults of the registered namespaces,
+	 * later sources taking precedence.
+	 * Secret references are then resolved, the values of whole-value references being kept for masking,
+	 * and string values are coerced to the types declared in the schema.
+	 * Sources failing to load and unresolved secrets are reported as errors.
+	 */
+	protected loadConfig(): LoadedConfig {
+		const values: IConfig = {};
+		const origins = new Map<string, string>();
+		const errors: ConfigurationError[] = [];
+		for (const [namespace, { defaults }] of this.namespaces) {
+			if (defaults) {
+				const namespaceDefaults: IConfig = {};
+				setByPath(namespaceDefaults, namespace, structuredClone(defaults));
+				mergeWithOrigins(
+					values,
+					namespaceDefaults,
+					`defaults:${namespace}`,
+					origins,
+				);
+			}
+		}
+		for (const source of this.sources) {
+			try {
+				mergeWithOrigins(values, source.load(), source.name, origins);
+			} catch (error) {
+				errors.push(
+					error instanceof ConfigurationError
+						? error
+						: new ConfigurationError(
+								`Failed to load configuration source ${source.name}: ${(error as Error).message}`,
+							),
+				);
+			}
+		}
+		const secrets = resolveSecrets(values, this.secretResolvers);
+		const coerced = coerceToSchema(secrets.values, this.schema) as IConfig;
+		for (const [namespace, { schema }] of this.namespaces) {
+			const value = getByPath(coerced, namespace);
+			if (value !== undefined) {
+				setByPath(coerced, namespace, coerceToSchema(value, schema));
+			}
+		}
+		return {
+			values: coerced,
+			origins,
+			secretKeys: secrets.secretKeys,
+			secretValues: secrets.secretValues,
+			errors: [...errors, ...secrets.errors],
+		};
 	}
 
-	protected validateConfig(): void {
-		// Implement validation logic here
+	private parseConfig(loaded: LoadedConfig): {
+		config: TConfig | undefined;
+		errors: ConfigurationError[];
+	} {
+		const result = this.schema.safeParse(loaded.values);
+		const errors = [
+			...loaded.errors,
+			...(result.success ? [] : this.toConfigurationErrors(result.error)),
+		];
+		const namespaceValues = new Map<string, unknown>();
+		for (const [namespace, { schema }] of this.namespaces) {
+			const namespaceResult = schema.safeParse(
+				getByPath(loaded.values, namespace) ?? {},
+			);
+			if (namespaceResult.success) {
+				namespaceValues.set(namespace, namespaceResult.data);
+			} else {
+				errors.push(
+					...this.toConfigurationErrors(namespaceResult.error, namespace),
+				);
+			}
+		}
+		if (!result.success || errors.length > 0) {
+			return { config: undefined, errors };
+		}
+		const config = result.data;
+		for (const [namespace, value] of namespaceValues) {
+			setByPath(config, namespace, value);
+		}
+		return { config, errors: [] };
 	}
 
-	protected loadConfig(): IConfig {
+	/**
+	 * Add the secret values to the logging masking configuration, if any, of a configuration.
+	 */
+	private withSecretValues(
+		config: IConfig,
+		secretValues: Set<string>,
+	): IConfig {
+		const logging = config["logging"];
+		if (!isPlainObject(logging) || !isPlainObject(logging["masking"])) {
+			return config;
+		}
 		return {
+			...config,
 			logging: {
-				level: process.env["LOG_LEVEL"] || "info",
+				...logging,
+				masking: { ...logging["masking"], sensitiveValues: [...secretValues] },
 			},
 		};
 	}
+
+	/**
+	 * Get the logging masking configuration, enabled even if logging masking is disabled.
+	 */
+	private getRedactionConfig(): SensitiveDataMaskingConfig {
+		const logging = loggingConfigSchema.safeParse(
+			this.getConfig()["logging"] ?? {},
+		);
+		return {
+			...(logging.success ? logging.data.masking : DEFAULT_MASKING_CONFIG),
+			enabled: true,
+			sensitiveValues: [...this.secretValues],
+		};
+	}
+
+	/**
+	 * Get the schema description of a key, from the schema of its namespace if registered.
+	 */
+	private getDescription(keyPath: string): string | undefined {
+		for (const [namespace, { schema }] of this.namespaces) {
+			if (keyPath.startsWith(`${namespace}.`)) {
+				return getSchemaDescription(
+					schema,
+					keyPath.slice(namespace.length + 1),
+				);
+			}
+		}
+		return getSchemaDescription(this.schema, keyPath);
+	}
+
+	private listKeys(config: IConfig, prefix = ""): string[] {
+		return Object.entries(config).flatMap(([key, value]) => {
+			const keyPath = prefix ? `${prefix}.${key}` : key;
+			return isPlainObject(value) && Object.keys(value).length > 0
+				? this.listKeys(value, keyPath)
+				: [keyPath];
+		});
+	}
+
+	/**
+	 * Read a value of the redacted configuration. A whole object redacted because
+	 * of its field name yields the mask string for each of its keys.
+	 */
+	private getRedactedValue(redacted: IConfig, keyPath: string): unknown {
+		let current: unknown = redacted;
+		for (const key of keyPath.split(".")) {
+			if (!isPlainObject(current)) {
+				return current;
+			}
+			current = current[key];
+		}
+		return current;
+	}
+
+	/**
+	 * Notify the subscribers of the keys whose value changed, each one even if another one throws.
+	 * @returns Errors thrown by the listeners.
+	 */
+	private notifyListeners(
+		previous: IConfig,
+		current: IConfig,
+	): ConfigurationError[] {
+		const errors: ConfigurationError[] = [];
+		for (const [keyPath, listeners] of [...this.listeners]) {
+			const oldValue = getByPath(previous, keyPath);
+			const newValue = getByPath(current, keyPath);
+			if (isDeepStrictEqual(oldValue, newValue)) {
+				continue;
+			}
+			for (const listener of [...listeners]) {
+				try {
+					listener(newValue, oldValue, keyPath);
+				} catch (error) {
+					errors.push(
+						new ConfigurationError(
+							`Change listener of ${keyPath} failed: ${error instanceof Error ? error.message : String(error)}`,
+							keyPath,
+							error,
+						),
+					);
+				}
+			}
+		}
+		return errors;
+	}
+
+	private toConfigurationErrors(
+		error: ZodError,
+		prefix?: string,
+	): ConfigurationError[] {
+		return error.issues.map((issue) => {
+			const configKey = [prefix, ...issue.path.map(String)]
+				.filter((key) => key !== undefined)
+				.join(".");
+			return new ConfigurationError(issue.message, configKey || undefined);
+		});
+	}
+}
+
+/**
+ * Create an independent ConfigService instance.
+ *
+ * @example
+ * ```typescript
+ * const config = createConfigService({
+ *     schema: z.object({ port: z.number().default(3000) }),
+ *     sources: [new ObjectSource("overrides", { port: 8080 })],
+ * });
+ * ```
+ */
+export function createConfigService<TConfig extends IConfig = DefaultConfig>(
+	options: ConfigServiceOptions<TConfig> = {},
+): IConfigService<TConfig> {
+	return new ConfigService<TConfig>(options);
 }
@@ -1,2 +1,5 @@
 export * from "./types";
+export * from "./schema";
+export * from "./secrets";
+export * from "./sources";
 export * from "./config-service";
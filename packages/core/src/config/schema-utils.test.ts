@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Unit tests for Zod schema inspection helpers.
+ */
+
+import { describe, expect, it } from "bun:test";
+import z from "zod";
+import { getSchemaDescription, unwrapSchema } from "./schema-utils";
+
+describe("schema-utils", () => {
+	describe("unwrapSchema", () => {
+		it("should remove optional, nullable and default modifiers", () => {
+			const inner = z.number();
+
+			expect(unwrapSchema(inner.nullable().optional().default(1))).toBe(inner);
+			expect(unwrapSchema(inner)).toBe(inner);
+		});
+
+		it("should unwrap pipes to their input, or to their output after a preprocessing", () => {
+			const inner = z.number();
+
+			expect(unwrapSchema(inner.transform(String).optional())).toBe(inner);
+			expect(unwrapSchema(z.preprocess((value) => value, inner))).toBe(inner);
+		});
+	});
+
+	describe("getSchemaDescription", () => {
+		const schema = z.object({
+			server: z
+				.object({
+					port: z.number().describe("HTTP port").default(3000),
+					host: z.string().optional().describe("Bind address"),
+					name: z.string(),
+				})
+				.optional(),
+		});
+
+		it("should find descriptions on values and modifiers", () => {
+			expect(getSchemaDescription(schema, "server.port")).toBe("HTTP port");
+			expect(getSchemaDescription(schema, "server.host")).toBe("Bind address");
+		});
+
+		it("should return undefined for undescribed or unknown keys", () => {
+			expect(getSchemaDescription(schema, "server.name")).toBeUndefined();
+			expect(getSchemaDescription(schema, "server.missing")).toBeUndefined();
+			expect(
+				getSchemaDescription(schema, "server.port.nested"),
+			).toBeUndefined();
+			expect(getSchemaDescription(schema, "other.key")).toBeUndefined();
+		});
+	});
+});
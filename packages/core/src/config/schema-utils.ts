@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Helpers for inspecting Zod configuration schemas.
+ */
+
+import {
+	ZodDefault,
+	ZodNullable,
+	ZodObject,
+	ZodOptional,
+	ZodPipe,
+	ZodPrefault,
+	ZodTransform,
+	type ZodType,
+} from "zod";
+
+type WrapperSchema =
+	| ZodOptional<ZodType>
+	| ZodNullable<ZodType>
+	| ZodDefault<ZodType>
+	| ZodPrefault<ZodType>;
+
+function isWrapperSchema(schema: ZodType): schema is WrapperSchema {
+	return (
+		schema instanceof ZodOptional ||
+		schema instanceof ZodNullable ||
+		schema instanceof ZodDefault ||
+		schema instanceof ZodPrefault
+	);
+}
+
+/**
+ * Get the schema wrapped by optional, nullable and default modifiers and by pipes:
+ * the input schema of a pipe (e.g. of `.transform()`),
+ * or its output schema when the input is a transform (`z.preprocess()`).
+ */
+export function unwrapSchema(schema: ZodType): ZodType {
+	let current = schema;
+	while (true) {
+		if (isWrapperSchema(current)) {
+			current = current.unwrap() as ZodType;
+		} else if (current instanceof ZodPipe) {
+			current = (
+				current.in instanceof ZodTransform ? current.out : current.in
+			) as ZodType;
+		} else {
+			return current;
+		}
+	}
+}
+
+/**
+ * Get the description (set with `.describe()`) of the schema at a dot-separated key path.
+ * The description may be set on the value schema or on any of its modifiers.
+ */
+export function getSchemaDescription(
+	schema: ZodType,
+	keyPath: string,
+): string | undefined {
+	let current: ZodType | undefined = schema;
+	for (const key of keyPath.split(".")) {
+		if (!current) {
+			return undefined;
+		}
+		const target = unwrapSchema(current);
+		current =
+			target instanceof ZodObject
+				? (target.shape as Record<string, ZodType>)[key]
+				: undefined;
+	}
+
+	while (current) {
+		if (current.description) {
+			return current.description;
+		}
+		current = isWrapperSchema(current)
+			? (current.unwrap() as ZodType)
+			: undefined;
+	}
+	return undefined;
+}
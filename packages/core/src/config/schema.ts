@@ -0,0 +1,47 @@
+import z from "zod";
+import { DEFAULT_MASKING_CONFIG } from "../logger/sensitive-data-masker";
+
+/**
+ * Schema of the logging configuration, producing a complete `LoggingConfig`.
+ * Every value has a default, so an empty object produces a valid configuration.
+ */
+export const loggingConfigSchema = z.object({
+	level: z.enum(["error", "warn", "info", "debug"]).default("info"),
+	format: z.enum(["json", "simple", "combined"]).default("json"),
+	file: z
+		.object({
+			enabled: z.boolean().default(false),
+			filename: z.string().min(1).default("app.log"),
+			maxSize: z
+				.string()
+				.regex(/^\d+[kmg]?$/i, "Expected a size such as 500k, 10m or 1g")
+				.default("10m"),
+			maxFiles: z.number().int().positive().default(5),
+		})
+		.prefault({}),
+	console: z
+		.object({
+			enabled: z.boolean().default(true),
+			colorize: z.boolean().default(false),
+		})
+		.prefault({}),
+	masking: z
+		.object({
+			enabled: z.boolean().default(DEFAULT_MASKING_CONFIG.enabled),
+			maskString: z.string().default(DEFAULT_MASKING_CONFIG.maskString),
+			customPatterns: z
+				.array(z.string())
+				.default(() => [...DEFAULT_MASKING_CONFIG.customPatterns]),
+		})
+		.prefault({}),
+});
+
+/**
+ * Default configuration schema used when no schema is provided to the ConfigService.
+ * Every value has a default, so an empty environment produces a valid configuration.
+ */
+export const defaultConfigSchema = z.object({
+	logging: loggingConfigSchema.prefault({}),
+});
+
+export type DefaultConfig = z.infer<typeof defaultConfigSchema>;
@@ -0,0 +1,27 @@
+import { ConfigurationError } from "../../errors";
+import type { ISecretResolver } from "../types";
+
+/**
+ * Secret resolver reading secrets from environment variables.
+ *
+ * @example
+ * ```typescript
+ * // ${env:DB_PASSWORD} or secret://env/DB_PASSWORD -> value of DB_PASSWORD
+ * const resolver = new EnvSecretResolver();
+ * ```
+ */
+export class EnvSecretResolver implements ISecretResolver {
+	readonly scheme = "env";
+
+	constructor(private readonly env: NodeJS.ProcessEnv = process.env) {}
+
+	resolve(reference: string): string {
+		const value = this.env[reference];
+		if (value === undefined) {
+			throw new ConfigurationError(
+				`Environment variable ${reference} is not set`,
+			);
+		}
+		return value;
+	}
+}
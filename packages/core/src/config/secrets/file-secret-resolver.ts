@@ -0,0 +1,33 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { ConfigurationError } from "../../errors";
+import type { ISecretResolver } from "../types";
+
+/**
+ * Secret resolver reading secrets from files, such as Docker or Kubernetes mounted secrets.
+ * References are paths relative to the base directory, and the trailing newline is trimmed.
+ *
+ * @example
+ * ```typescript
+ * // secret://file/run/secrets/db_password -> content of /run/secrets/db_password
+ * const resolver = new FileSecretResolver();
+ * // ${file:db_password} -> content of /var/run/secrets/app/db_password
+ * const appResolver = new FileSecretResolver("/var/run/secrets/app");
+ * ```
+ */
+export class FileSecretResolver implements ISecretResolver {
+	readonly scheme = "file";
+
+	constructor(private readonly baseDir: string = "/") {}
+
+	resolve(reference: string): string {
+		const filePath = resolve(this.baseDir, reference);
+		try {
+			return readFileSync(filePath, "utf8").replace(/\r?\n$/, "");
+		} catch (error) {
+			throw new ConfigurationError(
+				`Failed to read secret file ${filePath}: ${(error as Error).message}`,
+			);
+		}
+	}
+}
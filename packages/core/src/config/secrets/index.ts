@@ -0,0 +1,2 @@
+export * from "./env-secret-resolver";
+export * from "./file-secret-resolver";
@@ -0,0 +1,108 @@
+import { ConfigurationError } from "../../errors";
+import type { IConfig, ISecretResolver } from "../types";
+import { isPlainObject } from "../utils";
+
+const SECRET_URI_PATTERN = /^secret:\/\/([^/]+)\/(.+)$/;
+const SECRET_PLACEHOLDER_PATTERN = /\$\{([a-zA-Z][\w-]*):([^}]+)\}/g;
+const WHOLE_SECRET_PLACEHOLDER_PATTERN = /^\$\{([a-zA-Z][\w-]*):([^}]+)\}$/;
+
+/**
+ * Result of resolving the secret references of a configuration.
+ */
+export interface ResolvedSecrets {
+	/** Configuration with every secret reference replaced by its value */
+	values: IConfig;
+	/** Key paths of the values resolved from a secret reference */
+	secretKeys: Set<string>;
+	/**
+	 * Values of the whole-value references: `secret://` references and values made of a single
+	 * `${scheme:ref}` placeholder. Values of references embedded in a larger string are left out:
+	 * they are often short fragments (user names, hosts) of a larger value.
+	 */
+	secretValues: Set<string>;
+	/** Errors of the references that could not be resolved, keyed by configKey */
+	errors: ConfigurationError[];
+}
+
+/**
+ * Replace the secret references of a configuration by their values.
+ * Values are either a whole reference, `secret://<scheme>/<reference>`,
+ * or contain embedded references, `${<scheme>:<reference>}`.
+ */
+export function resolveSecrets(
+	config: IConfig,
+	resolvers: ISecretResolver[],
+): ResolvedSecrets {
+	const resolverMap = new Map(
+		resolvers.map((resolver) => [resolver.scheme, resolver]),
+	);
+	const result: ResolvedSecrets = {
+		values: {},
+		secretKeys: new Set(),
+		secretValues: new Set(),
+		errors: [],
+	};
+
+	const resolveReference = (scheme: string, reference: string): string => {
+		const resolver = resolverMap.get(scheme);
+		if (!resolver) {
+			throw new ConfigurationError(`No secret resolver for scheme "${scheme}"`);
+		}
+		return resolver.resolve(reference);
+	};
+
+	const resolveValue = (value: unknown, keyPath: string): unknown => {
+		if (isPlainObject(value)) {
+			const resolved: IConfig = {};
+			for (const [key, nested] of Object.entries(value)) {
+				resolved[key] = resolveValue(nested, `${keyPath}.${key}`);
+			}
+			return resolved;
+		}
+		if (Array.isArray(value)) {
+			return value.map((item, index) =>
+				resolveValue(item, `${keyPath}.${index}`),
+			);
+		}
+		if (typeof value !== "string") {
+			return value;
+		}
+
+		try {
+			let isSecret = false;
+			const wholeMatch =
+				value.match(SECRET_URI_PATTERN) ??
+				value.match(WHOLE_SECRET_PLACEHOLDER_PATTERN);
+			if (wholeMatch) {
+				const secret = resolveReference(
+					wholeMatch[1] as string,
+					wholeMatch[2] as string,
+				);
+				result.secretKeys.add(keyPath);
+				result.secretValues.add(secret);
+				return secret;
+			}
+			const resolved = value.replace(
+				SECRET_PLACEHOLDER_PATTERN,
+				(_match, scheme: string, reference: string) => {
+					isSecret = true;
+					return resolveReference(scheme, reference);
+				},
+			);
+			if (isSecret) {
+				result.secretKeys.add(keyPath);
+			}
+			return resolved;
+		} catch (error) {
+			result.errors.push(
+				new ConfigurationError((error as Error).message, keyPath),
+			);
+			return value;
+		}
+	};
+
+	for (const [key, value] of Object.entries(config)) {
+		result.values[key] = resolveValue(value, key);
+	}
+	return result;
+}
@@ -0,0 +1,135 @@
+// biome-ignore-all lint/suspicious/noTemplateCurlyInString: ${scheme:reference} placeholders are plain configuration strings
+/**
+ * @fileoverview Unit tests for secret resolvers and secret reference resolution.
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ConfigurationError } from "../../errors";
+import { EnvSecretResolver } from "./env-secret-resolver";
+import { FileSecretResolver } from "./file-secret-resolver";
+import { resolveSecrets } from "./resolve-secrets";
+
+describe("Secrets", () => {
+	let directory: string;
+
+	beforeAll(() => {
+		directory = mkdtempSync(join(tmpdir(), "config-secrets-"));
+		writeFileSync(join(directory, "db_password"), "s3cr3t\n");
+	});
+
+	afterAll(() => {
+		rmSync(directory, { recursive: true, force: true });
+	});
+
+	describe("FileSecretResolver", () => {
+		it("should read the secret file and trim the trailing newline", () => {
+			const resolver = new FileSecretResolver();
+
+			expect(resolver.scheme).toBe("file");
+			expect(resolver.resolve(join(directory, "db_password"))).toBe("s3cr3t");
+		});
+
+		it("should resolve references relative to the base directory", () => {
+			const resolver = new FileSecretResolver(directory);
+
+			expect(resolver.resolve("db_password")).toBe("s3cr3t");
+		});
+
+		it("should throw ConfigurationError for a missing file", () => {
+			const resolver = new FileSecretResolver(directory);
+
+			expect(() => resolver.resolve("missing")).toThrow(ConfigurationError);
+		});
+	});
+
+	describe("EnvSecretResolver", () => {
+		it("should read the environment variable", () => {
+			const resolver = new EnvSecretResolver({ API_KEY: "key-123" });
+
+			expect(resolver.scheme).toBe("env");
+			expect(resolver.resolve("API_KEY")).toBe("key-123");
+		});
+
+		it("should throw ConfigurationError for a missing variable", () => {
+			const resolver = new EnvSecretResolver({});
+
+			expect(() => resolver.resolve("API_KEY")).toThrow(ConfigurationError);
+		});
+	});
+
+	describe("resolveSecrets", () => {
+		const resolvers = [
+			new FileSecretResolver(directory),
+			new EnvSecretResolver({ DB_USER: "app", API_KEY: "key-123" }),
+		];
+
+		it("should resolve secret URIs and embedded references", () => {
+			const result = resolveSecrets(
+				{
+					database: {
+						password: "secret://file/db_password",
+						url: "postgres://${env:DB_USER}:${file:db_password}@db/app",
+						host: "db",
+					},
+					apiKeys: ["secret://env/API_KEY", "public"],
+					port: 5432,
+				},
+				resolvers,
+			);
+
+			expect(result.errors).toEqual([]);
+			expect(result.values).toEqual({
+				database: {
+					password: "s3cr3t",
+					url: "postgres://app:s3cr3t@db/app",
+					host: "db",
+				},
+				apiKeys: ["key-123", "public"],
+				port: 5432,
+			});
+			expect([...result.secretKeys]).toEqual([
+				"database.password",
+				"database.url",
+				"apiKeys.0",
+			]);
+			expect([...result.secretValues]).toEqual(["s3cr3t", "key-123"]);
+		});
+
+		it("should keep the values of whole-value placeholders for masking", () => {
+			const result = resolveSecrets(
+				{
+					token: "${env:API_KEY}",
+					user: "user ${env:DB_USER}",
+				},
+				resolvers,
+			);
+
+			expect(result.values).toEqual({ token: "key-123", user: "user app" });
+			expect([...result.secretKeys]).toEqual(["token", "user"]);
+			expect([...result.secretValues]).toEqual(["key-123"]);
+		});
+
+		it("should report unresolved references with their config key", () => {
+			const result = resolveSecrets(
+				{
+					database: { password: "secret://vault/db" },
+					token: "${env:MISSING}",
+				},
+				resolvers,
+			);
+
+			expect(result.errors.map((error) => error.configKey)).toEqual([
+				"database.password",
+				"token",
+			]);
+			expect(result.errors[0]?.message).toContain('scheme "vault"');
+			expect(result.values).toEqual({
+				database: { password: "secret://vault/db" },
+				token: "${env:MISSING}",
+			});
+		});
+	});
+});
@@ -0,0 +1,130 @@
+import type { IConfig, IConfigSource } from "../types";
+import { setByPath } from "../utils";
+
+/**
+ * Default mapping of environment variables to configuration key paths.
+ * Covers the whole logging configuration; LOG_MASK_PATTERNS is a comma-separated list.
+ */
+export const DEFAULT_ENV_MAPPING: Readonly<Record<string, string>> = {
+	LOG_LEVEL: "logging.level",
+	LOG_FORMAT: "logging.format",
+	LOG_FILE_ENABLED: "logging.file.enabled",
+	LOG_FILE_NAME: "logging.file.filename",
+	LOG_FILE_MAX_SIZE: "logging.file.maxSize",
+	LOG_FILE_MAX_FILES: "logging.file.maxFiles",
+	LOG_CONSOLE_ENABLED: "logging.console.enabled",
+	LOG_CONSOLE_COLORIZE: "logging.console.colorize",
+	LOG_MASK_ENABLED: "logging.masking.enabled",
+	LOG_MASK_STRING: "logging.masking.maskString",
+	LOG_MASK_PATTERNS: "logging.masking.customPatterns",
+};
+
+/**
+ * Case conversion applied to each environment variable segment to build a configuration key.
+ * - camel: MAX_SIZE -> maxSize
+ * - snake: MAX_SIZE -> max_size
+ * - kebab: MAX_SIZE -> max-size
+ * - none: MAX_SIZE -> MAX_SIZE
+ */
+export type EnvKeyCase = "camel" | "snake" | "kebab" | "none";
+
+/**
+ * Options for the environment variables configuration source.
+ */
+export interface EnvSourceOptions {
+	/** Environment variables to read (default: process.env) */
+	env?: NodeJS.ProcessEnv;
+	/** Map of environment variable names to dot-separated key paths (default: DEFAULT_ENV_MAPPING) */
+	mapping?: Readonly<Record<string, string>>;
+	/** Prefix of the variables mapped by convention (default: "APP") */
+	prefix?: string;
+	/** Separator between the prefix and the nesting levels (default: "__") */
+	separator?: string;
+	/** Case conversion of each nesting level (default: "camel") */
+	keyCase?: EnvKeyCase;
+}
+
+/**
+ * Configuration source reading environment variables.
+ *
+ * Variables are mapped to configuration keys in two ways:
+ * - by convention: `<prefix><separator>` followed by the nesting levels joined with the separator,
+ *   e.g. `APP__LOGGING__FILE__MAX_SIZE` -> `logging.file.maxSize`;
+ * - by the explicit `mapping`, which takes precedence, e.g. `LOG_LEVEL` -> `logging.level`.
+ *
+ * Values are supplied as strings and converted to the types declared in the ConfigService schema.
+ *
+ * @example
+ * ```typescript
+ * // MYAPP_DATABASE_POOL_SIZE=10 -> { database: { pool_size: "10" } }
+ * const source = new EnvSource({ prefix: "MYAPP", separator: "_", keyCase: "snake" });
+ * ```
+ */
+export class EnvSource implements IConfigSource {
+	readonly name = "env";
+	private readonly env: NodeJS.ProcessEnv;
+	private readonly mapping: Readonly<Record<string, string>>;
+	private readonly prefix: string;
+	private readonly separator: string;
+	private readonly keyCase: EnvKeyCase;
+
+	constructor(options: EnvSourceOptions = {}) {
+		this.env = options.env ?? process.env;
+		this.mapping = options.mapping ?? DEFAULT_ENV_MAPPING;
+		this.prefix = options.prefix ?? "APP";
+		this.separator = options.separator ?? "__";
+		this.keyCase = options.keyCase ?? "camel";
+	}
+
+	load(): IConfig {
+		const config: IConfig = {};
+		const conventionPrefix = `${this.prefix}${this.separator}`;
+
+		for (const [variable, value] of Object.entries(this.env)) {
+			if (
+				value === undefined ||
+				value === "" ||
+				!variable.startsWith(conventionPrefix)
+			) {
+				continue;
+			}
+			const segments = variable
+				.slice(conventionPrefix.length)
+				.split(this.separator)
+				.filter((segment) => segment !== "");
+			if (segments.length > 0) {
+				setByPath(
+					config,
+					segments.map((segment) => this.convertCase(segment)).join("."),
+					value,
+				);
+			}
+		}
+
+		for (const [variable, keyPath] of Object.entries(this.mapping)) {
+			const value = this.env[variable];
+			if (value !== undefined && value !== "") {
+				setByPath(config, keyPath, value);
+			}
+		}
+		return config;
+	}
+
+	private convertCase(segment: string): string {
+		const words = segment.toLowerCase().split("_");
+		switch (this.keyCase) {
+			case "camel":
+				return words
+					.map((word, index) =>
+						index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1),
+					)
+					.join("");
+			case "snake":
+				return words.join("_");
+			case "kebab":
+				return words.join("-");
+			default:
+				return segment;
+		}
+	}
+}
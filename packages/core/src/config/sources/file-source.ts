@@ -0,0 +1,85 @@
+import { existsSync, readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { parse as parseToml } from "smol-toml";
+import { parse as parseYaml } from "yaml";
+import { ConfigurationError } from "../../errors";
+import type { IConfig, IConfigSource } from "../types";
+import { isPlainObject } from "../utils";
+
+/**
+ * Options for a file-based configuration source.
+ */
+export interface FileSourceOptions {
+	/** Do not fail when the file does not exist (default: false) */
+	optional?: boolean;
+	/** Source name reported by the ConfigService (default: "file:<path>") */
+	name?: string;
+}
+
+/**
+ * Configuration source reading a JSON, YAML or TOML file.
+ * The format is detected from the file extension (.json, .yaml, .yml, .toml).
+ *
+ * @example
+ * ```typescript
+ * const source = new FileSource("config/config.yaml");
+ * const local = new FileSource("config/config.local.json", { optional: true });
+ * ```
+ */
+export class FileSource implements IConfigSource {
+	readonly name: string;
+	private readonly optional: boolean;
+
+	constructor(
+		readonly filePath: string,
+		options: FileSourceOptions = {},
+	) {
+		this.name = options.name ?? `file:${filePath}`;
+		this.optional = options.optional ?? false;
+	}
+
+	load(): IConfig {
+		if (!existsSync(this.filePath)) {
+			if (this.optional) {
+				return {};
+			}
+			throw new ConfigurationError(
+				`Configuration file not found: ${this.filePath}`,
+			);
+		}
+
+		let parsed: unknown;
+		try {
+			parsed = this.parse(readFileSync(this.filePath, "utf8"));
+		} catch (error) {
+			throw new ConfigurationError(
+				`Failed to parse configuration file ${this.filePath}: ${(error as Error).message}`,
+			);
+		}
+
+		if (parsed === undefined || parsed === null) {
+			return {};
+		}
+		if (!isPlainObject(parsed)) {
+			throw new ConfigurationError(
+				`Configuration file ${this.filePath} must contain an object`,
+			);
+		}
+		return parsed;
+	}
+
+	private parse(content: string): unknown {
+		const extension = extname(this.filePath).toLowerCase();
+		switch (extension) {
+			case ".json":
+				return JSON.parse(content);
+			case ".yaml":
+			case ".yml":
+				return parseYaml(content);
+			case ".toml":
+				return parseToml(content);
+			default:
+				throw new Error(`Unsupported file extension "${extension}"`);
+		}
+	}
+}
@@ -0,0 +1,4 @@
+export * from "./env-source";
+export * from "./file-source";
+export * from "./object-source";
+export * from "./source-chain";
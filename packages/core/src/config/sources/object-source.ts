@@ -0,0 +1,22 @@
+import type { IConfig, IConfigSource } from "../types";
+
+/**
+ * Configuration source backed by an in-memory object.
+ * Used for built-in defaults and programmatic overrides.
+ *
+ * @example
+ * ```typescript
+ * const defaults = new ObjectSource("defaults", { server: { port: 3000 } });
+ * const overrides = new ObjectSource("overrides", { server: { port: 8080 } });
+ * ```
+ */
+export class ObjectSource implements IConfigSource {
+	constructor(
+		readonly name: string,
+		private readonly values: IConfig,
+	) {}
+
+	load(): IConfig {
+		return structuredClone(this.values);
+	}
+}
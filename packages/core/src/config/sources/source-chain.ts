@@ -0,0 +1,84 @@
+import { basename, dirname, extname, join } from "node:path";
+import type { IConfig, IConfigSource } from "../types";
+import { EnvSource, type EnvSourceOptions } from "./env-source";
+import { FileSource } from "./file-source";
+import { ObjectSource } from "./object-source";
+
+/**
+ * Options for building the standard configuration source chain.
+ */
+export interface SourceChainOptions {
+	/** Built-in default values */
+	defaults?: IConfig;
+	/** Configuration files (JSON, YAML or TOML), in increasing order of precedence */
+	files?: string[];
+	/** Environment name used to look up environment-specific files (default: NODE_ENV) */
+	environment?: string;
+	/** Options for the environment variables source */
+	env?: EnvSourceOptions;
+	/** Programmatic overrides */
+	overrides?: IConfig;
+}
+
+/**
+ * Build the standard configuration source chain, in increasing order of precedence:
+ * defaults, files, environment-specific files, environment variables, overrides.
+ *
+ * Environment-specific files are derived from the given files by inserting the
+ * environment name before the extension (`config.json` -> `config.production.json`)
+ * and are skipped when they do not exist.
+ *
+ * @example
+ * ```typescript
+ * const sources = createSourceChain({
+ *     defaults: { server: { port: 3000 } },
+ *     files: ["config/config.yaml"],
+ *     environment: "production",
+ *     overrides: { server: { port: 8080 } },
+ * });
+ * const config = ConfigService.getInstance({ schema, sources });
+ * ```
+ */
+export function createSourceChain(
+	options: SourceChainOptions = {},
+): IConfigSource[] {
+	const files = options.files ?? [];
+	const environment = options.environment ?? process.env["NODE_ENV"];
+	const sources: IConfigSource[] = [];
+
+	if (options.defaults) {
+		sources.push(new ObjectSource("defaults", options.defaults));
+	}
+	for (const file of files) {
+		sources.push(new FileSource(file));
+	}
+	if (environment) {
+		for (const file of files) {
+			sources.push(
+				new FileSource(getEnvironmentFilePath(file, environment), {
+					optional: true,
+				}),
+			);
+		}
+	}
+	sources.push(new EnvSource(options.env));
+	if (options.overrides) {
+		sources.push(new ObjectSource("overrides", options.overrides));
+	}
+	return sources;
+}
+
+/**
+ * Get the environment-specific variant of a configuration file path.
+ * @example getEnvironmentFilePath("config/config.json", "production") // "config/config.production.json"
+ */
+export function getEnvironmentFilePath(
+	filePath: string,
+	environment: string,
+): string {
+	const extension = extname(filePath);
+	return join(
+		dirname(filePath),
+		`${basename(filePath, extension)}.${environment}${extension}`,
+	);
+}
@@ -0,0 +1,218 @@
+/**
+ * @fileoverview Unit tests for configuration sources.
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ConfigurationError } from "../../errors";
+import { EnvSource } from "./env-source";
+import { FileSource } from "./file-source";
+import { ObjectSource } from "./object-source";
+import { createSourceChain, getEnvironmentFilePath } from "./source-chain";
+
+describe("Configuration sources", () => {
+	let directory: string;
+
+	beforeAll(() => {
+		directory = mkdtempSync(join(tmpdir(), "config-sources-"));
+		writeFileSync(
+			join(directory, "config.json"),
+			JSON.stringify({ server: { port: 3000 } }),
+		);
+		writeFileSync(
+			join(directory, "config.production.json"),
+			JSON.stringify({ server: { port: 80 } }),
+		);
+		writeFileSync(
+			join(directory, "config.yaml"),
+			"server:\n  host: example.com\n  port: 8080\n",
+		);
+		writeFileSync(
+			join(directory, "config.toml"),
+			'[server]\nhost = "example.org"\nport = 9090\n',
+		);
+		writeFileSync(join(directory, "invalid.json"), "{ invalid");
+		writeFileSync(join(directory, "array.json"), "[1, 2]");
+		writeFileSync(join(directory, "config.ini"), "port=1");
+	});
+
+	afterAll(() => {
+		rmSync(directory, { recursive: true, force: true });
+	});
+
+	describe("ObjectSource", () => {
+		it("should return a copy of its values", () => {
+			const values = { server: { port: 3000 } };
+			const source = new ObjectSource("defaults", values);
+
+			const loaded = source.load();
+			(loaded["server"] as { port: number }).port = 1;
+
+			expect(source.name).toBe("defaults");
+			expect(source.load()).toEqual({ server: { port: 3000 } });
+		});
+	});
+
+	describe("FileSource", () => {
+		it("should parse JSON files", () => {
+			const source = new FileSource(join(directory, "config.json"));
+
+			expect(source.load()).toEqual({ server: { port: 3000 } });
+			expect(source.name).toBe(`file:${join(directory, "config.json")}`);
+		});
+
+		it("should parse YAML files", () => {
+			const source = new FileSource(join(directory, "config.yaml"));
+
+			expect(source.load()).toEqual({
+				server: { host: "example.com", port: 8080 },
+			});
+		});
+
+		it("should parse TOML files", () => {
+			const source = new FileSource(join(directory, "config.toml"));
+
+			expect(source.load()).toEqual({
+				server: { host: "example.org", port: 9090 },
+			});
+		});
+
+		it("should use a custom name", () => {
+			const source = new FileSource(join(directory, "config.json"), {
+				name: "main",
+			});
+
+			expect(source.name).toBe("main");
+		});
+
+		it("should return an empty object for a missing optional file", () => {
+			const source = new FileSource(join(directory, "missing.json"), {
+				optional: true,
+			});
+
+			expect(source.load()).toEqual({});
+		});
+
+		it("should throw ConfigurationError for a missing required file", () => {
+			const source = new FileSource(join(directory, "missing.json"));
+
+			expect(() => source.load()).toThrow(ConfigurationError);
+		});
+
+		it("should throw ConfigurationError for invalid content", () => {
+			expect(() =>
+				new FileSource(join(directory, "invalid.json")).load(),
+			).toThrow(ConfigurationError);
+			expect(() =>
+				new FileSource(join(directory, "array.json")).load(),
+			).toThrow("must contain an object");
+			expect(() =>
+				new FileSource(join(directory, "config.ini")).load(),
+			).toThrow("Unsupported file extension");
+		});
+	});
+
+	describe("EnvSource", () => {
+		it("should map LOG_LEVEL by default", () => {
+			const source = new EnvSource({ env: { LOG_LEVEL: "debug" } });
+
+			expect(source.load()).toEqual({ logging: { level: "debug" } });
+		});
+
+		it("should map variables to nested keys and skip empty values", () => {
+			const source = new EnvSource({
+				env: { DB_HOST: "db", DB_PORT: "" },
+				mapping: { DB_HOST: "database.host", DB_PORT: "database.port" },
+			});
+
+			expect(source.load()).toEqual({ database: { host: "db" } });
+		});
+
+		it("should map prefixed variables to nested camelCase keys", () => {
+			const source = new EnvSource({
+				env: {
+					APP__LOGGING__FILE__MAX_SIZE: "20m",
+					APP__LOGGING__LEVEL: "warn",
+					APP__: "ignored",
+					OTHER__KEY: "ignored",
+				},
+			});
+
+			expect(source.load()).toEqual({
+				logging: { level: "warn", file: { maxSize: "20m" } },
+			});
+		});
+
+		it("should let the explicit mapping take precedence over the convention", () => {
+			const source = new EnvSource({
+				env: { APP__LOGGING__LEVEL: "warn", LOG_LEVEL: "error" },
+			});
+
+			expect(source.load()).toEqual({ logging: { level: "error" } });
+		});
+
+		it.each([
+			["snake", { database: { pool_size: "10" } }],
+			["kebab", { database: { "pool-size": "10" } }],
+			["none", { DATABASE: { POOL_SIZE: "10" } }],
+		] as const)("should apply %s key case", (keyCase, expected) => {
+			const source = new EnvSource({
+				env: { MYAPP__DATABASE__POOL_SIZE: "10" },
+				prefix: "MYAPP",
+				keyCase,
+			});
+
+			expect(source.load()).toEqual(expected);
+		});
+
+		it("should use a custom separator", () => {
+			const source = new EnvSource({
+				env: { SVC_SERVER_PORT: "8080" },
+				prefix: "SVC",
+				separator: "_",
+				mapping: {},
+			});
+
+			expect(source.load()).toEqual({ server: { port: "8080" } });
+		});
+	});
+
+	describe("createSourceChain", () => {
+		it("should order sources by precedence", () => {
+			const sources = createSourceChain({
+				defaults: { server: { port: 1 } },
+				files: [join(directory, "config.json")],
+				environment: "production",
+				overrides: { server: { port: 2 } },
+			});
+
+			expect(sources.map((source) => source.name)).toEqual([
+				"defaults",
+				`file:${join(directory, "config.json")}`,
+				`file:${join(directory, "config.production.json")}`,
+				"env",
+				"overrides",
+			]);
+			expect(sources[2]?.load()).toEqual({ server: { port: 80 } });
+		});
+
+		it("should only include environment variables by default", () => {
+			const sources = createSourceChain({ environment: "" });
+
+			expect(sources.map((source) => source.name)).toEqual(["env"]);
+		});
+	});
+
+	describe("getEnvironmentFilePath", () => {
+		it("should insert the environment before the extension", () => {
+			expect(getEnvironmentFilePath("config/config.json", "production")).toBe(
+				join("config", "config.production.json"),
+			);
+			expect(getEnvironmentFilePath("config.yaml", "test")).toBe(
+				"config.test.yaml",
+			);
+		});
+	});
+});
@@ -1,9 +1,165 @@
+import type { input, output, ZodType } from "zod";
+import type { ConfigurationError } from "../errors";
+import type { LoggingConfig } from "../logger";
+
 export interface IConfig {
 	[key: string]: unknown;
 }
 
-export interface IConfigService {
-	getConfig(): IConfig;
-	getLoggingConfig(): IConfig;
-	validate(): { success: boolean; errors?: string[] };
+/**
+ * Result of a configuration validation.
+ * Each error carries the dot-separated `configKey` of the offending value.
+ * A successful reload also reports the errors thrown by the change listeners, keyed by their key path.
+ */
+export interface ConfigValidationResult {
+	success: boolean;
+	errors?: ConfigurationError[];
+}
+
+/**
+ * A source of configuration values (defaults, files, environment, overrides...).
+ * Sources are merged deeply in the order they are given, later sources taking precedence.
+ */
+export interface IConfigSource {
+	/** Name reported by `IConfigService.getSource()` for the values this source supplies */
+	readonly name: string;
+	/** File backing this source, watched for changes by `IConfigService.watch()` */
+	readonly filePath?: string;
+	/**
+	 * Load the configuration values of this source.
+	 * @throws ConfigurationError if the source cannot be read or parsed.
+	 */
+	load(): IConfig;
+}
+
+/**
+ * Resolver of secret references found in configuration values.
+ *
+ * A reference either makes up the whole value, `secret://<scheme>/<reference>`,
+ * or is embedded in it, `${<scheme>:<reference>}`.
+ */
+export interface ISecretResolver {
+	/** Scheme handled by this resolver (e.g. "file" or "env") */
+	readonly scheme: string;
+	/**
+	 * Resolve a secret reference to its value.
+	 * @throws ConfigurationError if the secret cannot be resolved.
+	 */
+	resolve(reference: string): string;
+}
+
+/**
+ * Description of a configuration key, as listed by `IConfigService.describe()`.
+ */
+export interface ConfigEntry {
+	/** Dot-separated key path */
+	readonly key: string;
+	/** Effective value, redacted if sensitive */
+	readonly value: unknown;
+	/** Name of the source that supplied the value (undefined for schema defaults) */
+	readonly source: string | undefined;
+	/** Description of the key in the schema */
+	readonly description: string | undefined;
+	/** Whether the value was resolved from a secret reference */
+	readonly secret: boolean;
+}
+
+/**
+ * Listener notified when the value at a subscribed key path changes.
+ */
+export type ConfigChangeListener = (
+	newValue: unknown,
+	oldValue: unknown,
+	keyPath: string,
+) => void;
+
+/**
+ * Options for watching the configuration for changes.
+ */
+export interface ConfigWatchOptions {
+	/** Watch the files of file-based sources (default: true) */
+	files?: boolean;
+	/** Polling interval of the watched files in milliseconds (default: 1000) */
+	intervalMs?: number;
+	/** Process signal triggering a reload, or false to disable it (default: "SIGHUP") */
+	signal?: NodeJS.Signals | false;
+	/**
+	 * Called with the validation errors of a rejected reload,
+	 * or with the errors thrown by the change listeners after a successful one
+	 */
+	onError?: (errors: ConfigurationError[]) => void;
+}
+
+/**
+ * Typed accessor of a configuration namespace, as returned by `IConfigService.register()`.
+ */
+export interface IConfigNamespace<TValue> {
+	/** Dot-separated key path of the namespace in the configuration */
+	readonly namespace: string;
+	/**
+	 * Get the validated values of the namespace.
+	 * @throws ConfigurationError if the configuration is invalid.
+	 */
+	get(): TValue;
+	/**
+	 * Subscribe to changes of the namespace values.
+	 * @returns Function removing the subscription.
+	 */
+	subscribe(
+		listener: (newValue: TValue, oldValue: TValue | undefined) => void,
+	): () => void;
+}
+
+export interface IConfigService<TConfig extends IConfig = IConfig> {
+	getConfig(): TConfig;
+	/**
+	 * Get the complete logging configuration, ready to be passed to `new Logger()`.
+	 * Missing logging values are filled with their defaults.
+	 */
+	getLoggingConfig(): LoggingConfig;
+	validate(): ConfigValidationResult;
+	/**
+	 * Get the name of the source that supplied the value at a dot-separated key path.
+	 * Returns undefined for keys no source has set (e.g. schema defaults).
+	 */
+	getSource(keyPath: string): string | undefined;
+	/**
+	 * Check whether the value at a dot-separated key path was resolved from a secret reference.
+	 */
+	isSecret(keyPath: string): boolean;
+	/**
+	 * Get the effective configuration with sensitive values redacted, safe to log.
+	 */
+	toJSON(): IConfig;
+	/**
+	 * List every configuration key with its redacted value, source and schema description.
+	 */
+	describe(): ConfigEntry[];
+	/**
+	 * Register the schema of a configuration namespace (e.g. "vectorstore").
+	 * The namespace is validated together with the rest of the configuration.
+	 * @param defaults Values used where no source sets one.
+	 * @throws ConfigurationError if the namespace is already registered.
+	 */
+	register<TSchema extends ZodType>(
+		namespace: string,
+		schema: TSchema,
+		defaults?: Partial<input<TSchema>>,
+	): IConfigNamespace<output<TSchema>>;
+	/**
+	 * Reload every source, swapping in the new configuration only if it is valid.
+	 * Errors thrown by the change listeners do not stop the notification of the other ones:
+	 * they are reported in the result.
+	 */
+	reload(): ConfigValidationResult;
+	/**
+	 * Subscribe to changes of the value at a dot-separated key path.
+	 * @returns Function removing the subscription.
+	 */
+	subscribe(keyPath: string, listener: ConfigChangeListener): () => void;
+	/**
+	 * Reload the configuration on file changes and process signals.
+	 * @returns Function stopping the watch.
+	 */
+	watch(options?: ConfigWatchOptions): () => void;
 }
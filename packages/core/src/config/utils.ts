@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Helpers for working with nested configuration objects.
+ */
+
+import type { IConfig } from "./types";
+
+/** Keys never read nor written, as they would reach or replace the prototype of an object */
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Check whether a value is a plain object (not an array, null, or class instance).
+ */
+export function isPlainObject(value: unknown): value is IConfig {
+	if (value === null || typeof value !== "object" || Array.isArray(value)) {
+		return false;
+	}
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+}
+
+/** Keys of a key path indexing an array (e.g. "apiKeys.0") */
+const ARRAY_INDEX_PATTERN = /^(?:0|[1-9]\d*)$/;
+
+/**
+ * Read a value by its dot-separated key path (e.g. "logging.file.maxSize"),
+ * numeric keys indexing arrays (e.g. "apiKeys.0").
+ */
+export function getByPath(config: IConfig, keyPath: string): unknown {
+	let current: unknown = config;
+	for (const key of keyPath.split(".")) {
+		if (UNSAFE_KEYS.has(key)) {
+			return undefined;
+		}
+		current = getChild(current, key);
+	}
+	return current;
+}
+
+/**
+ * Set a value by its dot-separated key path, creating intermediate objects as needed.
+ * Numeric keys index the arrays on the path, up to their length.
+ * Paths going through `__proto__`, `constructor` or `prototype` are ignored.
+ */
+export function setByPath(config: IConfig, keyPath: string, value: unknown) {
+	const keys = keyPath.split(".");
+	if (keys.some((key) => UNSAFE_KEYS.has(key))) {
+		return;
+	}
+	const lastKey = keys.pop() as string;
+	let current: IConfig | unknown[] = config;
+	for (const key of keys) {
+		let next = getChild(current, key);
+		if (!isPlainObject(next) && !Array.isArray(next)) {
+			next = {};
+			if (!setChild(current, key, next)) {
+				return;
+			}
+		}
+		current = next as IConfig | unknown[];
+	}
+	setChild(current, lastKey, value);
+}
+
+function getChild(container: unknown, key: string): unknown {
+	if (Array.isArray(container)) {
+		return ARRAY_INDEX_PATTERN.test(key) ? container[Number(key)] : undefined;
+	}
+	return isPlainObject(container) ? container[key] : undefined;
+}
+
+/**
+ * Set the value of a key of an object or of an index of an array,
+ * returning false for keys that do not index the array.
+ */
+function setChild(
+	container: IConfig | unknown[],
+	key: string,
+	value: unknown,
+): boolean {
+	if (!Array.isArray(container)) {
+		container[key] = value;
+		return true;
+	}
+	if (!ARRAY_INDEX_PATTERN.test(key) || Number(key) > container.length) {
+		return false;
+	}
+	container[Number(key)] = value;
+	return true;
+}
+
+/**
+ * Deep merge `source` into `target`, recording which source supplied each leaf value.
+ * Plain objects are merged recursively, while arrays and primitives replace the previous value.
+ * Keys reaching the prototype of an object (`__proto__`, `constructor`, `prototype`),
+ * e.g. from a parsed JSON file, are skipped.
+ * @param target Object to merge into (mutated).
+ * @param source Object to merge from.
+ * @param sourceName Name recorded in `origins` for every leaf coming from `source`.
+ * @param origins Map of leaf key paths to the name of the source that supplied them.
+ */
+export function mergeWithOrigins(
+	target: IConfig,
+	source: IConfig,
+	sourceName: string,
+	origins: Map<string, string>,
+	prefix = "",
+): IConfig {
+	for (const [key, value] of Object.entries(source)) {
+		if (value === undefined || UNSAFE_KEYS.has(key)) {
+			continue;
+		}
+		const keyPath = prefix ? `${prefix}.${key}` : key;
+		// Whatever was under this key before is replaced or merged
+		origins.delete(keyPath);
+
+		if (isPlainObject(value)) {
+			const existing = target[key];
+			if (!isPlainObject(existing)) {
+				target[key] = {};
+			}
+			mergeWithOrigins(
+				target[key] as IConfig,
+				value,
+				sourceName,
+				origins,
+				keyPath,
+			);
+		} else {
+			removeOrigins(origins, keyPath);
+			target[key] = value;
+			origins.set(keyPath, sourceName);
+		}
+	}
+	return target;
+}
+
+function removeOrigins(origins: Map<string, string>, keyPath: string): void {
+	for (const key of origins.keys()) {
+		if (key.startsWith(`${keyPath}.`)) {
+			origins.delete(key);
+		}
+	}
+}
@@ -1,15 +1,29 @@
+import { AppError } from "./app-error";
+import { ErrorCode } from "./error-codes";
+
 /**
  * APIError class to represent errors from API calls.
+ * `retryAfterMs` carries the delay requested by the service (e.g. from a Retry-After header),
+ * followed by the RetryHandler.
+ * Retryable on 429 and 5xx status codes, or without a status code (e.g. network errors).
  */
-export class APIError extends Error {
+export class APIError extends AppError {
 	constructor(
 		message: string,
 		public readonly statusCode?: number,
 		public readonly service?: string,
 		originalError?: Error,
+		public readonly retryAfterMs?: number,
 	) {
-		super(message);
+		super(message, {
+			code: ErrorCode.API,
+			retryable:
+				statusCode === undefined ||
+				statusCode === 429 ||
+				statusCode >= 500 ||
+				statusCode < 400,
+			cause: originalError,
+		});
 		this.name = "APIError";
-		this.cause = originalError;
 	}
 }
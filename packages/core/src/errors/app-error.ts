@@ -0,0 +1,75 @@
+import { ErrorCode, errorCodeHttpStatus } from "./error-codes";
+
+/**
+ * Severity of an error, e.g. to route it to the right alerting channel.
+ */
+export type ErrorSeverity = "low" | "medium" | "high" | "critical";
+
+/**
+ * Options of an AppError.
+ */
+export interface AppErrorOptions {
+	/** Stable machine-readable code (default: ErrorCode.INTERNAL) */
+	code?: string;
+	/** Severity (default: "medium") */
+	severity?: ErrorSeverity;
+	/** Whether the error is an expected runtime failure rather than a bug (default: true) */
+	isOperational?: boolean;
+	/** Whether the failed operation is worth retrying (default: false) */
+	retryable?: boolean;
+	/** Additional data about the error */
+	details?: Record<string, unknown>;
+	/** Error that caused this one */
+	cause?: unknown;
+}
+
+/**
+ * AppError class, base of the core errors, giving them a common shape:
+ * a stable `code` to branch on instead of the class, a `severity`, the `isOperational` and `retryable` flags,
+ * a `details` bag and the `timestamp` of the error.
+ *
+ * @example
+ * ```typescript
+ * throw new AppError("Order already shipped", {
+ *     code: "ORDER_ALREADY_SHIPPED",
+ *     severity: "low",
+ *     details: { orderId },
+ * });
+ * ```
+ */
+export class AppError extends Error {
+	public readonly code: string;
+	public readonly severity: ErrorSeverity;
+	public readonly isOperational: boolean;
+	public readonly retryable: boolean;
+	public readonly details: Record<string, unknown>;
+	public readonly timestamp: Date;
+
+	constructor(message: string, options: AppErrorOptions = {}) {
+		super(message);
+		this.name = "AppError";
+		this.code = options.code ?? ErrorCode.INTERNAL;
+		this.severity = options.severity ?? "medium";
+		this.isOperational = options.isOperational ?? true;
+		this.retryable = options.retryable ?? false;
+		this.details = options.details ?? {};
+		this.timestamp = new Date();
+		if (options.cause !== undefined) {
+			this.cause = options.cause;
+		}
+	}
+}
+
+/**
+ * Get the HTTP status code of an error from the code of an AppError.
+ * @returns The status code of the error code, or 500 for unknown codes and other errors.
+ */
+export function getHttpStatus(error: unknown): number {
+	if (
+		error instanceof AppError &&
+		Object.hasOwn(errorCodeHttpStatus, error.code)
+	) {
+		return errorCodeHttpStatus[error.code as ErrorCode];
+	}
+	return 500;
+}
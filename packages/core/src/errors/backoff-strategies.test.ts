@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Unit tests for the RetryHandler backoff strategies.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, jest } from "bun:test";
+import {
+	constantBackoff,
+	decorrelatedJitterBackoff,
+	equalJitterBackoff,
+	exponentialBackoff,
+	fullJitterBackoff,
+	linearBackoff,
+} from "./backoff-strategies";
+
+describe("backoff strategies", () => {
+	const context = { attempt: 3, baseDelayMs: 100, previousDelayMs: 150 };
+	let randomSpy: jest.Mock<() => number>;
+
+	beforeEach(() => {
+		randomSpy = jest.spyOn(Math, "random").mockReturnValue(0.5);
+	});
+
+	afterEach(() => {
+		randomSpy.mockRestore();
+	});
+
+	it("should compute deterministic delays", () => {
+		expect(exponentialBackoff(context)).toBe(400);
+		expect(linearBackoff(context)).toBe(300);
+		expect(constantBackoff(context)).toBe(100);
+	});
+
+	it("should pick full jitter delays between 0 and the exponential delay", () => {
+		expect(fullJitterBackoff(context)).toBe(200);
+		randomSpy.mockReturnValue(0);
+		expect(fullJitterBackoff(context)).toBe(0);
+	});
+
+	it("should pick equal jitter delays in the upper half of the exponential delay", () => {
+		expect(equalJitterBackoff(context)).toBe(300);
+		randomSpy.mockReturnValue(0);
+		expect(equalJitterBackoff(context)).toBe(200);
+	});
+
+	it("should pick decorrelated jitter delays between the base and three times the previous delay", () => {
+		expect(decorrelatedJitterBackoff(context)).toBe(100 + 0.5 * 350);
+		randomSpy.mockReturnValue(0);
+		expect(decorrelatedJitterBackoff(context)).toBe(100);
+	});
+});
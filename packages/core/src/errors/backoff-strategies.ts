@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Backoff strategies computing the delay before each retry of the RetryHandler.
+ * Jittered strategies spread the retries of clients failing together, avoiding thundering herds.
+ * See https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+ */
+
+import type { BackoffStrategy } from "./types";
+
+/**
+ * Exponential backoff: `baseDelayMs * 2 ** (attempt - 1)`.
+ */
+export const exponentialBackoff: BackoffStrategy = ({ attempt, baseDelayMs }) =>
+	baseDelayMs * 2 ** (attempt - 1);
+
+/**
+ * Linear backoff: `baseDelayMs * attempt`.
+ */
+export const linearBackoff: BackoffStrategy = ({ attempt, baseDelayMs }) =>
+	baseDelayMs * attempt;
+
+/**
+ * Constant backoff: always `baseDelayMs`.
+ */
+export const constantBackoff: BackoffStrategy = ({ baseDelayMs }) =>
+	baseDelayMs;
+
+/**
+ * Full jitter: random delay between 0 and the exponential delay.
+ */
+export const fullJitterBackoff: BackoffStrategy = (context) =>
+	Math.random() * exponentialBackoff(context);
+
+/**
+ * Equal jitter: half of the exponential delay, plus a random delay up to the other half.
+ */
+export const equalJitterBackoff: BackoffStrategy = (context) => {
+	const half = exponentialBackoff(context) / 2;
+	return half + Math.random() * half;
+};
+
+/**
+ * Decorrelated jitter: random delay between `baseDelayMs` and three times the previous delay.
+ */
+export const decorrelatedJitterBackoff: BackoffStrategy = ({
+	baseDelayMs,
+	previousDelayMs,
+}) => {
+	const upper = Math.max(baseDelayMs, previousDelayMs * 3);
+	return baseDelayMs + Math.random() * (upper - baseDelayMs);
+};
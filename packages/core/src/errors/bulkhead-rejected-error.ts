@@ -0,0 +1,21 @@
+import { AppError } from "./app-error";
+import { ErrorCode } from "./error-codes";
+
+/**
+ * BulkheadRejectedError class to represent a call rejected by a bulkhead,
+ * either because its queue is full or because the call waited too long for a free slot.
+ */
+export class BulkheadRejectedError extends AppError {
+	constructor(
+		public readonly operationName: string,
+		public readonly reason: "queue_full" | "queue_timeout",
+	) {
+		super(
+			reason === "queue_full"
+				? `Bulkhead is full for ${operationName}`
+				: `Bulkhead queue timeout exceeded for ${operationName}`,
+			{ code: ErrorCode.BULKHEAD_REJECTED, retryable: true },
+		);
+		this.name = "BulkheadRejectedError";
+	}
+}
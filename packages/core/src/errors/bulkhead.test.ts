@@ -0,0 +1,181 @@
+/**
+ * @fileoverview Unit tests for Bulkhead.
+ */
+
+import { describe, expect, it } from "bun:test";
+import { Bulkhead } from "./bulkhead";
+import { BulkheadRejectedError } from "./bulkhead-rejected-error";
+
+const deferred = () => {
+	let resolve: (value: string) => void = () => {};
+	const promise = new Promise<string>((res) => {
+		resolve = res;
+	});
+	return { promise, resolve };
+};
+
+describe("Bulkhead", () => {
+	it("should run calls up to the concurrency limit", async () => {
+		// Arrange
+		const bulkhead = new Bulkhead(2);
+		const first = deferred();
+		const second = deferred();
+
+		// Act
+		const results = [
+			bulkhead.execute(() => first.promise, "getUser"),
+			bulkhead.execute(() => second.promise, "getUser"),
+		];
+
+		// Assert
+		expect(bulkhead.getStats()).toEqual({
+			activeCalls: 2,
+			queuedCalls: 0,
+			availableSlots: 0,
+			maxConcurrent: 2,
+			maxQueue: 0,
+			rejectedCalls: 0,
+		});
+		first.resolve("first");
+		second.resolve("second");
+		expect(await Promise.all(results)).toEqual(["first", "second"]);
+		expect(bulkhead.getStats().activeCalls).toBe(0);
+	});
+
+	it("should reject calls beyond the limit without a queue", async () => {
+		// Arrange
+		const bulkhead = new Bulkhead(1);
+		const running = deferred();
+		const first = bulkhead.execute(() => running.promise, "getUser");
+
+		// Act
+		const error = await bulkhead
+			.execute(() => Promise.resolve("second"), "getUser")
+			.catch((e) => e);
+
+		// Assert
+		expect(error).toBeInstanceOf(BulkheadRejectedError);
+		expect(error).toMatchObject({
+			operationName: "getUser",
+			reason: "queue_full",
+		});
+		expect(bulkhead.getStats().rejectedCalls).toBe(1);
+		running.resolve("first");
+		expect(await first).toBe("first");
+	});
+
+	it("should run queued calls in order once a slot frees up", async () => {
+		// Arrange
+		const bulkhead = new Bulkhead(1, 2);
+		const running = deferred();
+		const order: string[] = [];
+		const first = bulkhead.execute(() => running.promise, "getUser");
+
+		// Act
+		const queued = ["second", "third"].map((name) =>
+			bulkhead.execute(async () => {
+				order.push(name);
+				return name;
+			}, "getUser"),
+		);
+		expect(bulkhead.getStats().queuedCalls).toBe(2);
+		running.resolve("first");
+
+		// Assert
+		expect(await Promise.all([first, ...queued])).toEqual([
+			"first",
+			"second",
+			"third",
+		]);
+		expect(order).toEqual(["second", "third"]);
+		expect(bulkhead.getStats()).toMatchObject({
+			activeCalls: 0,
+			queuedCalls: 0,
+		});
+	});
+
+	it("should not let a new call take the slot handed to a queued call", async () => {
+		// Arrange
+		const bulkhead = new Bulkhead(1, 1);
+		const running = deferred();
+		const first = bulkhead.execute(() => running.promise, "getUser");
+		const queuedCall = deferred();
+		const queued = bulkhead.execute(() => queuedCall.promise, "getUser");
+
+		// Act
+		running.resolve("first");
+		await first;
+		const late = bulkhead.execute(() => Promise.resolve("late"), "getUser");
+
+		// Assert
+		expect(bulkhead.getStats()).toMatchObject({
+			activeCalls: 1,
+			queuedCalls: 1,
+		});
+		queuedCall.resolve("queued");
+		expect(await queued).toBe("queued");
+		expect(await late).toBe("late");
+	});
+
+	it("should reject calls waiting longer than the queue timeout", async () => {
+		// Arrange
+		const bulkhead = new Bulkhead(1, 1, 10);
+		const running = deferred();
+		const first = bulkhead.execute(() => running.promise, "getUser");
+
+		// Act
+		const error = await bulkhead
+			.execute(() => Promise.resolve("second"), "getUser")
+			.catch((e) => e);
+
+		// Assert
+		expect(error).toBeInstanceOf(BulkheadRejectedError);
+		expect(error.reason).toBe("queue_timeout");
+		expect(bulkhead.getStats()).toMatchObject({
+			queuedCalls: 0,
+			rejectedCalls: 1,
+		});
+		running.resolve("first");
+		await first;
+	});
+
+	it("should leave the queue when the caller cancels", async () => {
+		// Arrange
+		const bulkhead = new Bulkhead(1, 1);
+		const running = deferred();
+		const first = bulkhead.execute(() => running.promise, "getUser");
+		const controller = new AbortController();
+		const queued = bulkhead.execute(
+			() => Promise.resolve("second"),
+			"getUser",
+			controller.signal,
+		);
+
+		// Act
+		controller.abort(new Error("Stopped by caller"));
+
+		// Assert
+		await expect(queued).rejects.toThrow("Stopped by caller");
+		expect(bulkhead.getStats().queuedCalls).toBe(0);
+		running.resolve("first");
+		await first;
+		expect(bulkhead.getStats().activeCalls).toBe(0);
+	});
+
+	it("should free the slot of a failed call", async () => {
+		// Arrange
+		const bulkhead = new Bulkhead(1);
+
+		// Act
+		await bulkhead
+			.execute(() => Promise.reject(new Error("Down")), "getUser")
+			.catch(() => {});
+		const result = await bulkhead.execute(
+			() => Promise.resolve("user"),
+			"getUser",
+		);
+
+		// Assert
+		expect(result).toBe("user");
+	});
+});
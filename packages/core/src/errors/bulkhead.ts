@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Bulkhead policy capping the concurrent calls to a dependency.
+ */
+
+import { BulkheadRejectedError } from "./bulkhead-rejected-error";
+import type { BulkheadStats, IBulkhead } from "./types";
+
+interface QueuedCall {
+	start: () => void;
+	cancel: (error: unknown) => void;
+}
+
+/**
+ * Bulkhead limiting the number of concurrent calls, so that a slow or failing dependency
+ * cannot exhaust the resources of the application.
+ *
+ * Calls beyond `maxConcurrent` wait in a queue of `maxQueue` calls, for at most `queueTimeoutMs`.
+ * Calls arriving while the queue is full, or waiting longer than the queue timeout,
+ * are rejected with a BulkheadRejectedError.
+ *
+ * @example
+ * This bulkhead lets 5 calls run at once, and 20 calls wait for at most 1 second.
+ * ```typescript
+ * const bulkhead = new Bulkhead(5, 20, 1000);
+ * try {
+ *     const report = await bulkhead.execute((signal) => reportApi.generate(params, { signal }), "GenerateReport");
+ * } catch (error) {
+ *     if (error instanceof BulkheadRejectedError) {
+ *         // Shed the load
+ *     }
+ * }
+ * const { activeCalls, queuedCalls } = bulkhead.getStats();
+ * ```
+ */
+export class Bulkhead implements IBulkhead {
+	private activeCalls = 0;
+	private rejectedCalls = 0;
+	private readonly queue: QueuedCall[] = [];
+
+	/**
+	 * @param maxConcurrent Maximum number of calls running at once.
+	 * @param maxQueue Maximum number of calls waiting for a free slot (0 rejects every call beyond the limit).
+	 * @param queueTimeoutMs Maximum time a call waits for a free slot (default: no limit).
+	 */
+	constructor(
+		private readonly maxConcurrent: number = 10,
+		private readonly maxQueue: number = 0,
+		private readonly queueTimeoutMs?: number,
+	) {}
+
+	async execute<T>(
+		operation: (signal?: AbortSignal) => Promise<T>,
+		operationName: string,
+		signal?: AbortSignal,
+	): Promise<T> {
+		signal?.throwIfAborted();
+		if (this.activeCalls < this.maxConcurrent) {
+			this.activeCalls++;
+		} else {
+			// The slot is handed over by the call that completes
+			await this.waitForSlot(operationName, signal);
+		}
+
+		try {
+			return await operation(signal);
+		} finally {
+			this.release();
+		}
+	}
+
+	getStats(): BulkheadStats {
+		return {
+			activeCalls: this.activeCalls,
+			queuedCalls: this.queue.length,
+			availableSlots: Math.max(0, this.maxConcurrent - this.activeCalls),
+			maxConcurrent: this.maxConcurrent,
+			maxQueue: this.maxQueue,
+			rejectedCalls: this.rejectedCalls,
+		};
+	}
+
+	private release(): void {
+		const next = this.queue.shift();
+		if (next) {
+			next.start();
+		} else {
+			this.activeCalls--;
+		}
+	}
+
+	private waitForSlot(
+		operationName: string,
+		signal: AbortSignal | undefined,
+	): Promise<void> {
+		if (this.queue.length >= this.maxQueue) {
+			this.rejectedCalls++;
+			return Promise.reject(
+				new BulkheadRejectedError(operationName, "queue_full"),
+			);
+		}
+
+		return new Promise<void>((resolve, reject) => {
+			let timer: ReturnType<typeof setTimeout> | undefined;
+			const onAbort = () => call.cancel(signal?.reason);
+			const call: QueuedCall = {
+				start: () => {
+					clearTimeout(timer);
+					signal?.removeEventListener("abort", onAbort);
+					resolve();
+				},
+				cancel: (error) => {
+					clearTimeout(timer);
+					signal?.removeEventListener("abort", onAbort);
+					this.queue.splice(this.queue.indexOf(call), 1);
+					reject(error);
+				},
+			};
+
+			this.queue.push(call);
+			signal?.addEventListener("abort", onAbort, { once: true });
+			if (this.queueTimeoutMs !== undefined) {
+				timer = setTimeout(() => {
+					this.rejectedCalls++;
+					call.cancel(
+						new BulkheadRejectedError(operationName, "queue_timeout"),
+					);
+				}, this.queueTimeoutMs);
+			}
+		});
+	}
+}
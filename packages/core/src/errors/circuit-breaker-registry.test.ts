@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Unit tests for CircuitBreakerRegistry.
+ */
+
+import { describe, expect, it } from "bun:test";
+import { CircuitBreakerRegistry } from "./circuit-breaker-registry";
+import { CircuitOpenError } from "./circuit-open-error";
+
+const fail = () => Promise.reject(new Error("Down"));
+
+describe("CircuitBreakerRegistry", () => {
+	it("should create one circuit breaker per name", async () => {
+		// Arrange
+		const registry = new CircuitBreakerRegistry({
+			defaults: { failureThreshold: 1 },
+		});
+
+		// Act
+		await registry.execute(fail, "payments").catch(() => {});
+		const result = await registry.execute(
+			() => Promise.resolve("user"),
+			"users",
+		);
+
+		// Assert
+		expect(result).toBe("user");
+		expect(registry.get("payments").getState()).toBe("OPEN");
+		expect(registry.get("users").getState()).toBe("CLOSED");
+		expect(registry.get("users")).toBe(registry.get("users"));
+	});
+
+	it("should merge the configuration of a name over the defaults", async () => {
+		// Arrange
+		const registry = new CircuitBreakerRegistry({
+			defaults: { failureThreshold: 1, resetTimeoutMs: 1000 },
+			configs: { payments: { failureThreshold: 2 } },
+		});
+
+		// Act
+		await registry.execute(fail, "payments").catch(() => {});
+		await registry.execute(fail, "users").catch(() => {});
+
+		// Assert
+		expect(registry.get("payments").getState()).toBe("CLOSED");
+		const error = await registry
+			.execute(() => Promise.resolve("user"), "users")
+			.catch((e) => e);
+		expect(error).toBeInstanceOf(CircuitOpenError);
+		expect(error.retryAfterMs).toBeGreaterThan(900);
+	});
+
+	it("should list the circuit breakers with their states", async () => {
+		// Arrange
+		const registry = new CircuitBreakerRegistry({
+			defaults: { failureThreshold: 1 },
+		});
+		await registry.execute(() => Promise.resolve("user"), "users");
+		await registry.execute(fail, "payments").catch(() => {});
+
+		// Act
+		const statuses = registry.list();
+
+		// Assert
+		expect(statuses).toEqual([
+			{
+				name: "users",
+				state: "CLOSED",
+				metrics: expect.objectContaining({ successfulCalls: 1 }),
+			},
+			{
+				name: "payments",
+				state: "OPEN",
+				metrics: expect.objectContaining({ failedCalls: 1 }),
+			},
+		]);
+	});
+
+	it("should keep a forced open circuit open past the reset timeout", async () => {
+		// Arrange
+		const registry = new CircuitBreakerRegistry({
+			defaults: { resetTimeoutMs: 0 },
+		});
+		const operation = () => Promise.resolve("charged");
+
+		// Act
+		registry.forceOpen("payments");
+
+		// Assert
+		await expect(registry.execute(operation, "payments")).rejects.toThrow(
+			"Circuit breaker is open for payments",
+		);
+		registry.forceClose("payments");
+		expect(await registry.execute(operation, "payments")).toBe("charged");
+	});
+
+	it("should close the circuit and clear the metrics on reset", async () => {
+		// Arrange
+		const registry = new CircuitBreakerRegistry({
+			defaults: { failureThreshold: 1 },
+		});
+		await registry.execute(fail, "payments").catch(() => {});
+
+		// Act
+		registry.reset("payments");
+
+		// Assert
+		expect(registry.list()).toEqual([
+			{
+				name: "payments",
+				state: "CLOSED",
+				metrics: expect.objectContaining({ calls: 0, failedCalls: 0 }),
+			},
+		]);
+	});
+});
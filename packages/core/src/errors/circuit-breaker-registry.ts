@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Registry of circuit breakers, one per operation or service.
+ */
+
+import { CircuitBreaker } from "./error-handler";
+import type {
+	CircuitBreakerMetrics,
+	CircuitBreakerOptions,
+	CircuitState,
+} from "./types";
+
+/**
+ * Configuration of the circuit breakers created by a CircuitBreakerRegistry.
+ * See the CircuitBreaker constructor for the defaults.
+ */
+export interface CircuitBreakerConfig {
+	failureThreshold?: number;
+	resetTimeoutMs?: number;
+	options?: CircuitBreakerOptions;
+}
+
+export interface CircuitBreakerRegistryOptions {
+	/** Configuration of every circuit breaker */
+	defaults?: CircuitBreakerConfig;
+	/** Configuration per name, merged over the defaults */
+	configs?: Record<string, CircuitBreakerConfig>;
+}
+
+/**
+ * State of a circuit breaker of a CircuitBreakerRegistry.
+ */
+export interface CircuitBreakerStatus {
+	name: string;
+	state: CircuitState;
+	metrics: CircuitBreakerMetrics;
+}
+
+/**
+ * Registry creating a circuit breaker for each operation or service on first use,
+ * so that the failures of one do not open the circuit of the others.
+ * With a state store, each circuit is saved under its name.
+ *
+ * @example
+ * ```typescript
+ * const circuitBreakers = new CircuitBreakerRegistry({
+ *     defaults: { failureThreshold: 5, resetTimeoutMs: 30000 },
+ *     configs: { payments: { resetTimeoutMs: 120000 } },
+ * });
+ * const charge = await circuitBreakers.execute(() => paymentsApi.charge(order), "payments");
+ *
+ * // During an incident
+ * circuitBreakers.forceOpen("payments");
+ * console.table(circuitBreakers.list().map(({ name, state }) => ({ name, state })));
+ * ```
+ */
+export class CircuitBreakerRegistry {
+	private readonly breakers = new Map<string, CircuitBreaker>();
+
+	constructor(private readonly options: CircuitBreakerRegistryOptions = {}) {}
+
+	/**
+	 * Get the circuit breaker of a name, creating it on first use.
+	 */
+	get(name: string): CircuitBreaker {
+		let breaker = this.breakers.get(name);
+		if (!breaker) {
+			const { defaults = {}, configs = {} } = this.options;
+			const config = configs[name] ?? {};
+			const options = { ...defaults.options, ...config.options };
+			breaker = new CircuitBreaker(
+				config.failureThreshold ?? defaults.failureThreshold,
+				config.resetTimeoutMs ?? defaults.resetTimeoutMs,
+				// Circuits sharing a state store are keyed by their name
+				{ ...options, stateKey: options.stateKey ?? name },
+			);
+			this.breakers.set(name, breaker);
+		}
+		return breaker;
+	}
+
+	/**
+	 * Execute an operation through the circuit breaker of its name.
+	 */
+	execute<T>(
+		operation: (signal?: AbortSignal) => Promise<T>,
+		name: string,
+		signal?: AbortSignal,
+	): Promise<T> {
+		return this.get(name).execute(operation, name, signal);
+	}
+
+	/**
+	 * List the circuit breakers created so far, with their states and metrics.
+	 */
+	list(): CircuitBreakerStatus[] {
+		return [...this.breakers].map(([name, breaker]) => ({
+			name,
+			state: breaker.getState(),
+			metrics: breaker.getMetrics(),
+		}));
+	}
+
+	/**
+	 * Open the circuit of a name until forceClose or reset is called.
+	 */
+	forceOpen(name: string): Promise<void> {
+		return this.get(name).forceOpen(name);
+	}
+
+	/**
+	 * Close the circuit of a name.
+	 */
+	forceClose(name: string): Promise<void> {
+		return this.get(name).forceClose(name);
+	}
+
+	/**
+	 * Close the circuit of a name and clear its metrics.
+	 */
+	reset(name: string): Promise<void> {
+		return this.get(name).reset(name);
+	}
+}
@@ -0,0 +1,19 @@
+import { AppError } from "./app-error";
+import { ErrorCode } from "./error-codes";
+
+/**
+ * CircuitOpenError class to represent a call rejected by an open circuit breaker.
+ */
+export class CircuitOpenError extends AppError {
+	constructor(
+		public readonly operationName: string,
+		/** Time until the circuit lets a call through again (0 while probe calls are in progress) */
+		public readonly retryAfterMs: number,
+	) {
+		super(`Circuit breaker is open for ${operationName}`, {
+			code: ErrorCode.CIRCUIT_OPEN,
+			retryable: true,
+		});
+		this.name = "CircuitOpenError";
+	}
+}
@@ -0,0 +1,241 @@
+/**
+ * @fileoverview Unit tests for sharing circuit breaker states through a state store.
+ */
+
+import { describe, expect, it, jest } from "bun:test";
+import { CircuitBreakerRegistry } from "./circuit-breaker-registry";
+import { CircuitOpenError } from "./circuit-open-error";
+import { InMemoryCircuitStateStore } from "./circuit-state-store";
+import { CircuitBreaker } from "./error-handler";
+import { TimeoutError } from "./timeout-error";
+import type { CircuitBreakerOptions, ICircuitStateStore } from "./types";
+
+const fail = () => Promise.reject(new Error("Down"));
+const succeed = () => Promise.resolve("ok");
+
+describe("InMemoryCircuitStateStore", () => {
+	it("should increment the version on every save", async () => {
+		// Arrange
+		const store = new InMemoryCircuitStateStore();
+		const snapshot = { state: "OPEN" as const, failures: 3, forcedOpen: false };
+
+		// Act
+		await store.set("payments", snapshot, 0);
+		const saved = await store.set("payments", { ...snapshot, failures: 4 }, 1);
+
+		// Assert
+		expect(saved).toEqual({ ...snapshot, failures: 4, version: 2 });
+		expect(await store.get("payments")).toEqual(saved);
+		expect(await store.get("users")).toBeUndefined();
+	});
+
+	it("should not save a state whose version changed", async () => {
+		// Arrange
+		const store = new InMemoryCircuitStateStore();
+		const snapshot = { state: "OPEN" as const, failures: 3, forcedOpen: false };
+		await store.set("payments", snapshot, 0);
+
+		// Act
+		const inserted = await store.set("payments", snapshot, 0);
+		const updated = await store.set(
+			"payments",
+			{ ...snapshot, state: "CLOSED" },
+			2,
+		);
+
+		// Assert
+		expect(inserted).toBeUndefined();
+		expect(updated).toBeUndefined();
+		expect(await store.get("payments")).toEqual({ ...snapshot, version: 1 });
+	});
+});
+
+describe("CircuitBreaker with a state store", () => {
+	const createBreakers = (store: ICircuitStateStore) => {
+		const options: CircuitBreakerOptions = {
+			stateStore: store,
+			stateKey: "payments",
+			stateSyncIntervalMs: 0,
+		};
+		return [
+			new CircuitBreaker(2, 60000, options),
+			new CircuitBreaker(2, 60000, options),
+		] as const;
+	};
+
+	it("should require a state key", () => {
+		expect(
+			() =>
+				new CircuitBreaker(2, 60000, {
+					stateStore: new InMemoryCircuitStateStore(),
+				}),
+		).toThrow("A state key is required to use a circuit state store");
+	});
+
+	it("should share the opening of the circuit between processes", async () => {
+		// Arrange
+		const [first, second] = createBreakers(new InMemoryCircuitStateStore());
+
+		// Act
+		await first.execute(fail, "charge").catch(() => {});
+		await first.execute(fail, "charge").catch(() => {});
+		const error = await second.execute(succeed, "charge").catch((e) => e);
+
+		// Assert
+		expect(first.getState()).toBe("OPEN");
+		expect(error).toBeInstanceOf(CircuitOpenError);
+		expect(second.getState()).toBe("OPEN");
+	});
+
+	it("should share consecutive failures between processes", async () => {
+		// Arrange
+		const [first, second] = createBreakers(new InMemoryCircuitStateStore());
+
+		// Act
+		await first.execute(fail, "charge").catch(() => {});
+		await second.execute(fail, "charge").catch(() => {});
+
+		// Assert
+		expect(second.getState()).toBe("OPEN");
+	});
+
+	it("should share a forced open circuit", async () => {
+		// Arrange
+		const store = new InMemoryCircuitStateStore();
+		const [first, second] = createBreakers(store);
+
+		// Act
+		await first.forceOpen("charge");
+
+		// Assert
+		await expect(second.execute(succeed, "charge")).rejects.toBeInstanceOf(
+			CircuitOpenError,
+		);
+		await second.forceClose("charge");
+		expect(await first.execute(succeed, "charge")).toBe("ok");
+	});
+
+	it("should adopt the state saved by another process instead of overwriting it", async () => {
+		// Arrange
+		const store = new InMemoryCircuitStateStore();
+		const first = new CircuitBreaker(2, 60000, {
+			stateStore: store,
+			stateKey: "payments",
+			stateSyncIntervalMs: 60000,
+		});
+		const second = new CircuitBreaker(2, 60000, {
+			stateStore: store,
+			stateKey: "payments",
+			stateSyncIntervalMs: 0,
+		});
+		await first.execute(fail, "charge").catch(() => {});
+		await second.execute(fail, "charge").catch(() => {});
+
+		// Act
+		await first.execute(succeed, "charge");
+
+		// Assert
+		expect(await store.get("payments")).toMatchObject({ state: "OPEN" });
+		expect(first.getState()).toBe("OPEN");
+		await expect(second.execute(succeed, "charge")).rejects.toBeInstanceOf(
+			CircuitOpenError,
+		);
+	});
+
+	it("should overwrite the state saved by another process on manual control", async () => {
+		// Arrange
+		const store = new InMemoryCircuitStateStore();
+		const [first, second] = createBreakers(store);
+		await first.forceOpen("charge");
+
+		// Act
+		await second.forceClose("charge");
+
+		// Assert
+		expect(await store.get("payments")).toMatchObject({
+			state: "CLOSED",
+			forcedOpen: false,
+			version: 2,
+		});
+		expect(await first.execute(succeed, "charge")).toBe("ok");
+	});
+
+	it("should not read the store more often than the sync interval", async () => {
+		// Arrange
+		const store = new InMemoryCircuitStateStore();
+		const get = jest.spyOn(store, "get");
+		const breaker = new CircuitBreaker(2, 60000, {
+			stateStore: store,
+			stateKey: "payments",
+			stateSyncIntervalMs: 60000,
+		});
+
+		// Act
+		await breaker.execute(succeed, "charge");
+		await breaker.execute(succeed, "charge");
+
+		// Assert
+		expect(get).toHaveBeenCalledTimes(1);
+	});
+
+	it("should go on with the local state when the store fails", async () => {
+		// Arrange
+		const store: ICircuitStateStore = {
+			get: () => Promise.reject(new Error("Connection refused")),
+			set: () => Promise.reject(new Error("Connection refused")),
+		};
+		const breaker = new CircuitBreaker(1, 60000, {
+			stateStore: store,
+			stateKey: "payments",
+		});
+		const onStateStoreError = jest.fn();
+		breaker.on("stateStoreError", onStateStoreError);
+
+		// Act
+		await breaker.execute(fail, "charge").catch(() => {});
+
+		// Assert
+		expect(breaker.getState()).toBe("OPEN");
+		expect(onStateStoreError).toHaveBeenCalledTimes(2);
+	});
+
+	it("should fail fast when the store hangs", async () => {
+		// Arrange
+		const store: ICircuitStateStore = {
+			get: () => new Promise(() => {}),
+			set: () => new Promise(() => {}),
+		};
+		const breaker = new CircuitBreaker(1, 60000, {
+			stateStore: store,
+			stateKey: "payments",
+			stateStoreTimeoutMs: 20,
+		});
+		const onStateStoreError = jest.fn();
+		breaker.on("stateStoreError", onStateStoreError);
+		const startedAt = Date.now();
+
+		// Act
+		await breaker.execute(fail, "charge").catch(() => {});
+		const error = await breaker.execute(succeed, "charge").catch((e) => e);
+
+		// Assert
+		expect(error).toBeInstanceOf(CircuitOpenError);
+		expect(Date.now() - startedAt).toBeLessThan(1000);
+		expect(onStateStoreError).toHaveBeenCalledTimes(2);
+		expect(onStateStoreError.mock.calls[0]?.[0]).toBeInstanceOf(TimeoutError);
+	});
+
+	it("should key the circuits of a registry by their name", async () => {
+		// Arrange
+		const store = new InMemoryCircuitStateStore();
+		const registry = new CircuitBreakerRegistry({
+			defaults: { failureThreshold: 1, options: { stateStore: store } },
+		});
+
+		// Act
+		await registry.execute(fail, "payments").catch(() => {});
+
+		// Assert
+		expect(await store.get("payments")).toMatchObject({ state: "OPEN" });
+	});
+});
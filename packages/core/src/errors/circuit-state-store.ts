@@ -0,0 +1,36 @@
+/**
+ * @fileoverview In-memory store of circuit breaker states.
+ */
+
+import type {
+	CircuitStateSnapshot,
+	ICircuitStateStore,
+	StoredCircuitState,
+} from "./types";
+
+/**
+ * Circuit state store sharing the state between the circuit breakers of a single process.
+ * Useful as a default, and in tests of the circuit breakers of several processes.
+ */
+export class InMemoryCircuitStateStore implements ICircuitStateStore {
+	private readonly states = new Map<string, StoredCircuitState>();
+
+	async get(key: string): Promise<StoredCircuitState | undefined> {
+		const stored = this.states.get(key);
+		return stored && { ...stored };
+	}
+
+	async set(
+		key: string,
+		snapshot: CircuitStateSnapshot,
+		expectedVersion: number,
+	): Promise<StoredCircuitState | undefined> {
+		const version = this.states.get(key)?.version ?? 0;
+		if (version !== expectedVersion) {
+			return undefined;
+		}
+		const stored = { ...snapshot, version: version + 1 };
+		this.states.set(key, stored);
+		return { ...stored };
+	}
+}
@@ -1,12 +1,22 @@
+import { AppError } from "./app-error";
+import { ErrorCode } from "./error-codes";
+
 /**
  * ConfigurationError class to represent configuration-related errors.
+ * Not operational: the application cannot run until the configuration is fixed.
  */
-export class ConfigurationError extends Error {
+export class ConfigurationError extends AppError {
 	constructor(
 		message: string,
 		public readonly configKey?: string,
+		cause?: unknown,
 	) {
-		super(message);
+		super(message, {
+			code: ErrorCode.CONFIGURATION,
+			severity: "critical",
+			isOperational: false,
+			cause,
+		});
 		this.name = "ConfigurationError";
 	}
 }
@@ -1,7 +1,11 @@
+import { AppError } from "./app-error";
+import { ErrorCode } from "./error-codes";
+
 /**
  * DataFetchError class to represent errors during data fetching operations.
+ * Retryable unless the original error is an AppError that is not.
  */
-export class DataFetchError extends Error {
+export class DataFetchError extends AppError {
 	constructor(
 		message: string,
 		public readonly source?: string,
@@ -9,8 +13,12 @@ export class DataFetchError extends Error {
 		public readonly retryCount?: number,
 		originalError?: Error,
 	) {
-		super(message);
+		super(message, {
+			code: ErrorCode.DATA_FETCH,
+			retryable:
+				!(originalError instanceof AppError) || originalError.retryable,
+			cause: originalError,
+		});
 		this.name = "DataFetchError";
-		this.cause = originalError;
 	}
 }
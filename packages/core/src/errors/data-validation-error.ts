@@ -1,9 +1,11 @@
 import type { ZodError } from "zod";
+import { AppError } from "./app-error";
+import { ErrorCode } from "./error-codes";
 
 /**
  * DataValidationError class to represent validation errors using Zod.
  */
-export class DataValidationError extends Error {
+export class DataValidationError extends AppError {
 	public readonly validationErrors?:
 		| Array<{ path: string; message: string }>
 		| undefined;
@@ -15,10 +17,13 @@ export class DataValidationError extends Error {
 			path: issue.path.join("."),
 			message: issue.message,
 		}));
-		super(`Validation failed: ${JSON.stringify(validationErrors)}`);
+		super(`Validation failed: ${JSON.stringify(validationErrors)}`, {
+			code: ErrorCode.VALIDATION,
+			severity: "low",
+			cause: validationError,
+		});
 		this.originalMessage = message;
 		this.name = "DataValidationError";
 		this.validationErrors = validationErrors;
-		this.cause = validationError;
 	}
 }
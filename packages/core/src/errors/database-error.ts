@@ -1,15 +1,65 @@
+import { AppError } from "./app-error";
+import { ErrorCode } from "./error-codes";
+
+/**
+ * Postgres SQLSTATE classes whose errors are transient.
+ * - 08: connection exception
+ * - 53: insufficient resources (e.g. too many connections)
+ */
+const TRANSIENT_SQLSTATE_CLASSES = ["08", "53"];
+
+/**
+ * Postgres SQLSTATEs whose errors are transient.
+ */
+const TRANSIENT_SQLSTATES = [
+	"40001", // serialization_failure
+	"40P01", // deadlock_detected
+	"55P03", // lock_not_available
+	"57P01", // admin_shutdown
+	"57P02", // crash_shutdown
+	"57P03", // cannot_connect_now
+];
+
 /**
  * DatabaseError class to represent database-related errors.
+ * `sqlState` is the Postgres SQLSTATE found in the `code` of the original error.
+ * Retryable on transient SQLSTATEs (connection errors, serialization failures, deadlocks...),
+ * or without a SQLSTATE.
  */
-export class DatabaseError extends Error {
+export class DatabaseError extends AppError {
+	public readonly sqlState?: string | undefined;
+
 	constructor(
 		message: string,
 		public readonly source?: string,
 		public readonly operation?: string,
 		originalError?: Error,
 	) {
-		super(message);
+		const sqlState = getSqlState(originalError);
+		super(message, {
+			code: ErrorCode.DATABASE,
+			severity: "high",
+			retryable: sqlState === undefined || isTransientSqlState(sqlState),
+			cause: originalError,
+		});
 		this.name = "DatabaseError";
-		this.cause = originalError;
+		this.sqlState = sqlState;
 	}
 }
+
+function getSqlState(error: unknown): string | undefined {
+	if (error === null || typeof error !== "object" || !("code" in error)) {
+		return undefined;
+	}
+	const { code } = error;
+	return typeof code === "string" && /^[0-9A-Z]{5}$/.test(code)
+		? code
+		: undefined;
+}
+
+function isTransientSqlState(sqlState: string): boolean {
+	return (
+		TRANSIENT_SQLSTATES.includes(sqlState) ||
+		TRANSIENT_SQLSTATE_CLASSES.includes(sqlState.slice(0, 2))
+	);
+}
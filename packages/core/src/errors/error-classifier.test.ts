@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Unit tests for the error classifier.
+ */
+
+import { describe, expect, it } from "bun:test";
+import { ZodError } from "zod";
+import { APIError } from "./api-error";
+import { CircuitOpenError } from "./circuit-open-error";
+import { ConfigurationError } from "./configuration-error";
+import { DataFetchError } from "./data-fetch-error";
+import { DataValidationError } from "./data-validation-error";
+import { DatabaseError } from "./database-error";
+import {
+	getRetryAfterMs,
+	isRetryableError,
+	parseRetryAfter,
+} from "./error-classifier";
+import { RateLimitExceededError } from "./rate-limit-exceeded-error";
+
+/** Error thrown by the Postgres driver, carrying a SQLSTATE */
+function createPgError(code: string): Error {
+	return Object.assign(new Error(`pg error ${code}`), { code });
+}
+
+describe("isRetryableError", () => {
+	it("should retry API errors on 429 and 5xx status codes", () => {
+		expect(isRetryableError(new APIError("Too many", 429))).toBe(true);
+		expect(isRetryableError(new APIError("Unavailable", 503))).toBe(true);
+		expect(isRetryableError(new APIError("Network error"))).toBe(true);
+	});
+
+	it("should not retry API errors on other 4xx status codes", () => {
+		expect(isRetryableError(new APIError("Bad request", 400))).toBe(false);
+		expect(isRetryableError(new APIError("Not found", 404))).toBe(false);
+	});
+
+	it("should retry database errors on transient SQLSTATEs", () => {
+		for (const code of ["40001", "40P01", "08006", "53300", "57P01"]) {
+			expect(
+				isRetryableError(
+					new DatabaseError("Query failed", "pg", "query", createPgError(code)),
+				),
+			).toBe(true);
+		}
+	});
+
+	it("should not retry database errors on permanent SQLSTATEs", () => {
+		for (const code of ["23505", "42P01", "22P02"]) {
+			expect(
+				isRetryableError(
+					new DatabaseError("Query failed", "pg", "query", createPgError(code)),
+				),
+			).toBe(false);
+		}
+	});
+
+	it("should classify data fetch errors by their cause", () => {
+		expect(
+			isRetryableError(
+				new DataFetchError(
+					"Fetch failed",
+					"API",
+					"get",
+					0,
+					new APIError("Not found", 404),
+				),
+			),
+		).toBe(false);
+		expect(
+			isRetryableError(
+				new DataFetchError(
+					"Fetch failed",
+					"API",
+					"get",
+					0,
+					new APIError("Bad gateway", 502),
+				),
+			),
+		).toBe(true);
+		expect(isRetryableError(new DataFetchError("Fetch failed"))).toBe(true);
+	});
+
+	it("should never retry validation and configuration errors", () => {
+		expect(
+			isRetryableError(new DataValidationError("Invalid", new ZodError([]))),
+		).toBe(false);
+		expect(isRetryableError(new ConfigurationError("Missing key"))).toBe(false);
+	});
+
+	it("should retry other errors", () => {
+		expect(isRetryableError(new Error("ECONNRESET"))).toBe(true);
+	});
+});
+
+describe("getRetryAfterMs", () => {
+	it("should read the hint of an API error or of a cause", () => {
+		const apiError = new APIError("Too many", 429, "Search", undefined, 2000);
+
+		expect(getRetryAfterMs(apiError)).toBe(2000);
+		expect(
+			getRetryAfterMs(
+				new DataFetchError("Fetch failed", "API", "get", 0, apiError),
+			),
+		).toBe(2000);
+		expect(getRetryAfterMs(new APIError("Too many", 429))).toBeUndefined();
+	});
+
+	it("should read the wait of a rate limiter", () => {
+		expect(getRetryAfterMs(new RateLimitExceededError("openai", 1500))).toBe(
+			1500,
+		);
+	});
+
+	it("should read the time until an open circuit lets calls through", () => {
+		expect(getRetryAfterMs(new CircuitOpenError("payments", 30000))).toBe(
+			30000,
+		);
+		expect(
+			getRetryAfterMs(new CircuitOpenError("payments", 0)),
+		).toBeUndefined();
+	});
+});
+
+describe("parseRetryAfter", () => {
+	it("should parse a number of seconds", () => {
+		expect(parseRetryAfter("120")).toBe(120000);
+	});
+
+	it("should parse an HTTP date", () => {
+		const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+
+		expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:30 GMT", now)).toBe(30000);
+		expect(parseRetryAfter("Wed, 21 Oct 2015 07:27:00 GMT", now)).toBe(0);
+	});
+
+	it("should ignore missing and invalid values", () => {
+		expect(parseRetryAfter(null)).toBeUndefined();
+		expect(parseRetryAfter("")).toBeUndefined();
+		expect(parseRetryAfter("soon")).toBeUndefined();
+	});
+});
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Classification of errors into transient (worth retrying) and permanent ones.
+ * Used as the default retry decision of the RetryHandler.
+ */
+
+import { APIError } from "./api-error";
+import { AppError } from "./app-error";
+import { CircuitOpenError } from "./circuit-open-error";
+import { DataFetchError } from "./data-fetch-error";
+import { RateLimitExceededError } from "./rate-limit-exceeded-error";
+
+/**
+ * Check whether an error is transient, so that the failed operation is worth retrying:
+ * - DataFetchError: classified by its cause, retried without one
+ * - AppError: retried when `retryable`, e.g. APIError on 429 and 5xx status codes,
+ *   DatabaseError on transient Postgres SQLSTATEs, never DataValidationError and ConfigurationError
+ * - any other error: retried
+ */
+export function isRetryableError(error: Error): boolean {
+	if (error instanceof DataFetchError && error.cause instanceof Error) {
+		return isRetryableError(error.cause);
+	}
+	if (error instanceof AppError) {
+		return error.retryable;
+	}
+	return true;
+}
+
+/**
+ * Get the delay requested by the service that failed (e.g. from a Retry-After header),
+ * by a local rate limiter or by an open circuit breaker, looking through the causes of the error.
+ * A circuit breaker whose probe calls are in progress requests no delay in particular.
+ * @returns Delay in milliseconds, or undefined if the error carries no hint.
+ */
+export function getRetryAfterMs(error: Error): number | undefined {
+	let current: unknown = error;
+	while (current instanceof Error) {
+		if (current instanceof APIError && current.retryAfterMs !== undefined) {
+			return current.retryAfterMs;
+		}
+		if (current instanceof RateLimitExceededError) {
+			return current.retryAfterMs;
+		}
+		if (current instanceof CircuitOpenError) {
+			return current.retryAfterMs > 0 ? current.retryAfterMs : undefined;
+		}
+		current = current.cause;
+	}
+	return undefined;
+}
+
+/**
+ * Parse the value of a Retry-After HTTP header, either a number of seconds or an HTTP date.
+ * @returns Delay in milliseconds (0 for a date in the past), or undefined if the value is invalid.
+ *
+ * @example
+ * ```typescript
+ * throw new APIError("Rate limited", 429, "Search", undefined, parseRetryAfter(response.headers.get("retry-after")));
+ * ```
+ */
+export function parseRetryAfter(
+	value: string | null | undefined,
+	now: number = Date.now(),
+): number | undefined {
+	const trimmed = value?.trim();
+	if (!trimmed) {
+		return undefined;
+	}
+	if (/^\d+$/.test(trimmed)) {
+		return Number(trimmed) * 1000;
+	}
+	const date = Date.parse(trimmed);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
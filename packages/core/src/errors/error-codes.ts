@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Stable machine-readable codes of the core errors, and their HTTP status codes.
+ */
+
+/**
+ * Codes of the core errors
+ */
+export enum ErrorCode {
+	INTERNAL = "INTERNAL_ERROR",
+	API = "API_ERROR",
+	DATABASE = "DATABASE_ERROR",
+	DATA_FETCH = "DATA_FETCH_ERROR",
+	VALIDATION = "VALIDATION_ERROR",
+	CONFIGURATION = "CONFIGURATION_ERROR",
+	TIMEOUT = "TIMEOUT",
+	CIRCUIT_OPEN = "CIRCUIT_OPEN",
+	BULKHEAD_REJECTED = "BULKHEAD_REJECTED",
+	RATE_LIMIT_EXCEEDED = "RATE_LIMIT_EXCEEDED",
+	RETRY_EXHAUSTED = "RETRY_EXHAUSTED",
+	RETRY_DEADLINE_EXCEEDED = "RETRY_DEADLINE_EXCEEDED",
+}
+
+/**
+ * HTTP status code answered for each error code.
+ * Failures of a dependency map to 502/503/504, so that they are not mistaken for bugs of the application.
+ */
+export const errorCodeHttpStatus: Readonly<Record<ErrorCode, number>> = {
+	[ErrorCode.INTERNAL]: 500,
+	[ErrorCode.API]: 502,
+	[ErrorCode.DATABASE]: 500,
+	[ErrorCode.DATA_FETCH]: 502,
+	[ErrorCode.VALIDATION]: 400,
+	[ErrorCode.CONFIGURATION]: 500,
+	[ErrorCode.TIMEOUT]: 504,
+	[ErrorCode.CIRCUIT_OPEN]: 503,
+	[ErrorCode.BULKHEAD_REJECTED]: 503,
+	[ErrorCode.RATE_LIMIT_EXCEEDED]: 429,
+	[ErrorCode.RETRY_EXHAUSTED]: 502,
+	[ErrorCode.RETRY_DEADLINE_EXCEEDED]: 504,
+};
@@ -5,7 +5,23 @@
 
 import { afterEach, beforeEach, describe, expect, it, jest } from "bun:test";
 import { APIError } from "./api-error";
-import { CircuitBreaker, ErrorHandler, RetryHandler } from "./error-handler";
+import { DataFetchError } from "./data-fetch-error";
+import { linearBackoff } from "./backoff-strategies";
+import { CircuitOpenError } from "./circuit-open-error";
+import {
+	CircuitBreaker,
+	ErrorHandler,
+	RetryHandler,
+	TimeoutHandler,
+} from "./error-handler";
+import { RetryDeadlineExceededError } from "./retry-deadline-exceeded-error";
+import { RetryExhaustedError } from "./retry-exhausted-error";
+import { TimeoutError } from "./timeout-error";
+import type {
+	BackoffContext,
+	CircuitStateChangeEvent,
+	RetryAttempt,
+} from "./types";
 
 describe("RetryHandler", () => {
 	let retryHandler: RetryHandler;
@@ -118,14 +134,436 @@ describe("RetryHandler", () => {
 			// Assert
 			expect(delaySpy).toHaveBeenCalledTimes(2);
 			// First retry: 1000ms * 2^0 = 1000ms
-			expect(delaySpy).toHaveBeenNthCalledWith(1, 10);
+			expect(delaySpy).toHaveBeenNthCalledWith(1, 10, undefined);
 			// Second retry: 1000ms * 2^1 = 2000ms
-			expect(delaySpy).toHaveBeenNthCalledWith(2, 20);
+			expect(delaySpy).toHaveBeenNthCalledWith(2, 20, undefined);
 
 			// Cleanup
 			delaySpy.mockRestore();
 		});
 	});
+
+	describe("backoff options", () => {
+		let delaySpy: jest.Mock<(ms: number) => Promise<void>>;
+
+		beforeEach(() => {
+			delaySpy = jest
+				.spyOn(
+					RetryHandler.prototype as unknown as {
+						delay: (ms: number) => Promise<void>;
+					},
+					"delay",
+				)
+				.mockImplementation(() => Promise.resolve());
+		});
+
+		afterEach(() => {
+			delaySpy.mockRestore();
+		});
+
+		it("should use the given backoff strategy", async () => {
+			// Arrange
+			const operation = jest.fn().mockRejectedValue(new Error("failure"));
+			const handler = new RetryHandler(4, 100, { backoff: linearBackoff });
+
+			// Act
+			await expect(handler.execute(operation)).rejects.toThrow("failure");
+
+			// Assert
+			expect(delaySpy.mock.calls.map(([ms]) => ms)).toEqual([100, 200, 300]);
+		});
+
+		it("should cap delays at maxDelayMs", async () => {
+			// Arrange
+			const operation = jest.fn().mockRejectedValue(new Error("failure"));
+			const handler = new RetryHandler(5, 100, { maxDelayMs: 250 });
+
+			// Act
+			await expect(handler.execute(operation)).rejects.toThrow("failure");
+
+			// Assert
+			expect(delaySpy.mock.calls.map(([ms]) => ms)).toEqual([
+				100, 200, 250, 250,
+			]);
+		});
+
+		it("should pass the previous capped delay to the strategy", async () => {
+			// Arrange
+			const operation = jest.fn().mockRejectedValue(new Error("failure"));
+			const backoff = jest.fn(
+				({ previousDelayMs }: BackoffContext) => previousDelayMs * 3,
+			);
+			const handler = new RetryHandler(4, 100, { backoff, maxDelayMs: 500 });
+
+			// Act
+			await expect(handler.execute(operation)).rejects.toThrow("failure");
+
+			// Assert
+			expect(backoff.mock.calls.map(([context]) => context)).toEqual([
+				{ attempt: 1, baseDelayMs: 100, previousDelayMs: 100 },
+				{ attempt: 2, baseDelayMs: 100, previousDelayMs: 300 },
+				{ attempt: 3, baseDelayMs: 100, previousDelayMs: 500 },
+			]);
+		});
+
+		it("should give up with every attempt when the deadline is exceeded", async () => {
+			// Arrange
+			const errors = [new Error("first"), new Error("second")];
+			const operation = jest
+				.fn()
+				.mockRejectedValueOnce(errors[0])
+				.mockRejectedValueOnce(errors[1])
+				.mockResolvedValue("success");
+			const handler = new RetryHandler(5, 100, { deadlineMs: 250 });
+			// Let the backoff delays advance the clock
+			let now = 0;
+			const dateNowSpy = jest.spyOn(Date, "now").mockImplementation(() => now);
+			delaySpy.mockImplementation((ms) => {
+				now += ms;
+				return Promise.resolve();
+			});
+
+			// Act
+			const error = (await handler
+				.execute(operation)
+				.catch((e) => e)) as RetryDeadlineExceededError;
+			dateNowSpy.mockRestore();
+
+			// Assert: 100ms then 200ms of backoff would exceed the budget
+			expect(error).toBeInstanceOf(RetryDeadlineExceededError);
+			expect(error.deadlineMs).toBe(250);
+			expect(
+				error.attempts.map((attempt: RetryAttempt) => attempt.error),
+			).toEqual(errors);
+			expect(error.cause).toBe(errors[1]);
+			expect(operation).toHaveBeenCalledTimes(2);
+			expect(delaySpy).toHaveBeenCalledTimes(1);
+		});
+
+		it("should abort a pending attempt once the deadline is reached", async () => {
+			// Arrange
+			let attemptSignal: AbortSignal | undefined;
+			const operation = jest.fn((signal?: AbortSignal) => {
+				attemptSignal = signal;
+				return new Promise<string>(() => {});
+			});
+			const handler = new RetryHandler(3, 10, { deadlineMs: 100 });
+			const startedAt = Date.now();
+
+			// Act
+			const error = (await handler
+				.execute(operation)
+				.catch((e) => e)) as RetryDeadlineExceededError;
+
+			// Assert
+			expect(error).toBeInstanceOf(RetryDeadlineExceededError);
+			expect(error.attempts).toHaveLength(1);
+			expect(error.cause).toBeInstanceOf(TimeoutError);
+			expect(attemptSignal?.aborted).toBe(true);
+			expect(Date.now() - startedAt).toBeLessThan(500);
+			expect(operation).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("observability", () => {
+		let delaySpy: jest.Mock<(ms: number) => Promise<void>>;
+
+		beforeEach(() => {
+			delaySpy = jest
+				.spyOn(
+					RetryHandler.prototype as unknown as {
+						delay: (ms: number) => Promise<void>;
+					},
+					"delay",
+				)
+				.mockImplementation(() => Promise.resolve());
+		});
+
+		afterEach(() => {
+			delaySpy.mockRestore();
+		});
+
+		it("should report every retry and giving up to the hooks", async () => {
+			// Arrange
+			const errors = [new Error("first"), new Error("second")];
+			const operation = jest
+				.fn()
+				.mockRejectedValueOnce(errors[0])
+				.mockRejectedValueOnce(errors[1]);
+			const onRetry = jest.fn();
+			const onGiveUp = jest.fn();
+			const handler = new RetryHandler(2, 10, { onRetry, onGiveUp });
+
+			// Act
+			await expect(handler.execute(operation)).rejects.toThrow("second");
+
+			// Assert
+			expect(onRetry).toHaveBeenCalledTimes(1);
+			expect(onRetry).toHaveBeenCalledWith({
+				attempt: 1,
+				error: errors[0],
+				elapsedMs: expect.any(Number),
+				delayMs: 10,
+			});
+			expect(onGiveUp).toHaveBeenCalledTimes(1);
+			expect(onGiveUp.mock.calls[0]?.[0]).toMatchObject({
+				attempt: 2,
+				error: errors[1],
+			});
+			expect(
+				onGiveUp.mock.calls[0]?.[0].attempts.map(
+					(attempt: RetryAttempt) => attempt.error,
+				),
+			).toEqual(errors);
+		});
+
+		it("should log retries and giving up", async () => {
+			// Arrange
+			const logger = {
+				error: jest.fn(),
+				warn: jest.fn(),
+				info: jest.fn(),
+				debug: jest.fn(),
+			};
+			const operation = jest.fn().mockRejectedValue(new Error("failure"));
+			const handler = new RetryHandler(2, 10, {
+				logger,
+				operationName: "fetchUsers",
+			});
+
+			// Act
+			await expect(handler.execute(operation)).rejects.toThrow("failure");
+
+			// Assert
+			expect(logger.warn).toHaveBeenCalledWith(
+				"Attempt 1 of fetchUsers failed, retrying in 10ms",
+				{ attempt: 1, delayMs: 10, error: "failure" },
+			);
+			expect(logger.error).toHaveBeenCalledWith(
+				"fetchUsers failed after 2 attempt(s)",
+				{ attempts: 2, error: "failure" },
+			);
+		});
+
+		it("should wrap the errors of every attempt once attempts run out", async () => {
+			// Arrange
+			const errors = [
+				new Error("first"),
+				new Error("second"),
+				new Error("third"),
+			];
+			const operation = jest
+				.fn()
+				.mockRejectedValueOnce(errors[0])
+				.mockRejectedValueOnce(errors[1])
+				.mockRejectedValueOnce(errors[2]);
+			const handler = new RetryHandler(3, 10, { operationName: "fetchUsers" });
+
+			// Act
+			const error = (await handler
+				.execute(operation)
+				.catch((e) => e)) as RetryExhaustedError;
+
+			// Assert
+			expect(error).toBeInstanceOf(RetryExhaustedError);
+			expect(error).toBeInstanceOf(DataFetchError);
+			expect(error.message).toBe("Operation failed after 3 attempt(s): third");
+			expect(error.retryCount).toBe(2);
+			expect(error.operation).toBe("fetchUsers");
+			expect(error.cause).toBeInstanceOf(AggregateError);
+			expect((error.cause as AggregateError).errors).toEqual(errors);
+		});
+
+		it("should throw errors that are not retried as is", async () => {
+			// Arrange
+			const error = new APIError("Not found", 404);
+			const operation = jest.fn().mockRejectedValue(error);
+			const onGiveUp = jest.fn();
+			const handler = new RetryHandler(3, 10, { onGiveUp });
+
+			// Act & Assert
+			await expect(handler.execute(operation)).rejects.toBe(error);
+			expect(onGiveUp).toHaveBeenCalledTimes(1);
+		});
+
+		it("should keep the earlier attempts when a later error is not retried", async () => {
+			// Arrange
+			const errors = [
+				new APIError("Unavailable", 503),
+				new APIError("Unavailable", 503),
+				new APIError("Not found", 404),
+			];
+			const operation = jest
+				.fn()
+				.mockRejectedValueOnce(errors[0])
+				.mockRejectedValueOnce(errors[1])
+				.mockRejectedValueOnce(errors[2]);
+			const handler = new RetryHandler(5, 1);
+
+			// Act
+			const error = (await handler
+				.execute(operation)
+				.catch((e) => e)) as RetryExhaustedError;
+
+			// Assert
+			expect(error).toBeInstanceOf(RetryExhaustedError);
+			expect(error.message).toBe(
+				"Operation failed after 3 attempt(s): Not found",
+			);
+			expect((error.cause as AggregateError).errors).toEqual(errors);
+			expect(operation).toHaveBeenCalledTimes(3);
+		});
+	});
+
+	describe("error classification", () => {
+		let delaySpy: jest.Mock<(ms: number) => Promise<void>>;
+
+		beforeEach(() => {
+			delaySpy = jest
+				.spyOn(
+					RetryHandler.prototype as unknown as {
+						delay: (ms: number) => Promise<void>;
+					},
+					"delay",
+				)
+				.mockImplementation(() => Promise.resolve());
+		});
+
+		afterEach(() => {
+			delaySpy.mockRestore();
+		});
+
+		it("should not retry permanent errors by default", async () => {
+			// Arrange
+			const operation = jest
+				.fn()
+				.mockRejectedValue(new APIError("Not found", 404, "Users"));
+
+			// Act & Assert
+			await expect(retryHandler.execute(operation)).rejects.toThrow(
+				"Not found",
+			);
+			expect(operation).toHaveBeenCalledTimes(1);
+		});
+
+		it("should retry transient errors by default", async () => {
+			// Arrange
+			const operation = jest
+				.fn()
+				.mockRejectedValueOnce(new APIError("Unavailable", 503, "Users"))
+				.mockResolvedValue("success");
+
+			// Act
+			const result = await retryHandler.execute(operation);
+
+			// Assert
+			expect(result).toBe("success");
+			expect(operation).toHaveBeenCalledTimes(2);
+		});
+
+		it("should follow the Retry-After hint of the error", async () => {
+			// Arrange
+			const operation = jest
+				.fn()
+				.mockRejectedValueOnce(
+					new APIError("Too many requests", 429, "Users", undefined, 1500),
+				)
+				.mockResolvedValue("success");
+			const handler = new RetryHandler(3, 10, { maxDelayMs: 2000 });
+
+			// Act
+			await handler.execute(operation);
+
+			// Assert
+			expect(delaySpy).toHaveBeenCalledWith(1500, undefined);
+		});
+
+		it("should give up when the Retry-After hint exceeds maxDelayMs", async () => {
+			// Arrange
+			const error = new APIError(
+				"Too many requests",
+				429,
+				"Users",
+				undefined,
+				1500,
+			);
+			const operation = jest.fn().mockRejectedValue(error);
+			const onGiveUp = jest.fn();
+			const handler = new RetryHandler(3, 10, { maxDelayMs: 100, onGiveUp });
+
+			// Act & Assert
+			await expect(handler.execute(operation)).rejects.toBe(error);
+			expect(operation).toHaveBeenCalledTimes(1);
+			expect(delaySpy).not.toHaveBeenCalled();
+			expect(onGiveUp).toHaveBeenCalledTimes(1);
+		});
+
+		it("should wait for an open circuit, up to maxDelayMs", async () => {
+			// Arrange
+			const shortlyOpen = new CircuitOpenError("payments", 500);
+			const longOpen = new CircuitOpenError("payments", 60000);
+			const operation = jest
+				.fn()
+				.mockRejectedValueOnce(shortlyOpen)
+				.mockRejectedValueOnce(longOpen);
+			const handler = new RetryHandler(3, 10, { maxDelayMs: 1000 });
+
+			// Act
+			const error = await handler.execute(operation).catch((e) => e);
+
+			// Assert
+			expect(delaySpy).toHaveBeenCalledTimes(1);
+			expect(delaySpy).toHaveBeenCalledWith(500, undefined);
+			expect(operation).toHaveBeenCalledTimes(2);
+			expect(error).toBeInstanceOf(RetryExhaustedError);
+		});
+	});
+
+	describe("cancellation", () => {
+		it("should pass the signal to the operation", async () => {
+			// Arrange
+			const controller = new AbortController();
+			const operation = jest.fn().mockResolvedValue("success");
+
+			// Act
+			await retryHandler.execute(operation, undefined, controller.signal);
+
+			// Assert
+			expect(operation).toHaveBeenCalledWith(controller.signal);
+		});
+
+		it("should cancel a pending backoff sleep right away", async () => {
+			// Arrange
+			const controller = new AbortController();
+			const operation = jest.fn().mockRejectedValue(new Error("failure"));
+			const handler = new RetryHandler(3, 60000);
+			const startedAt = Date.now();
+
+			// Act
+			const result = handler.execute(operation, undefined, controller.signal);
+			setTimeout(() => controller.abort(), 10);
+
+			// Assert
+			await expect(result).rejects.toMatchObject({ name: "AbortError" });
+			expect(Date.now() - startedAt).toBeLessThan(1000);
+			expect(operation).toHaveBeenCalledTimes(1);
+		});
+
+		it("should not retry an operation failing because of the abort", async () => {
+			// Arrange
+			const controller = new AbortController();
+			const operation = jest.fn(() => {
+				controller.abort(new Error("Stopped by caller"));
+				return Promise.reject(new Error("failure"));
+			});
+
+			// Act & Assert
+			await expect(
+				retryHandler.execute(operation, undefined, controller.signal),
+			).rejects.toThrow("Stopped by caller");
+			expect(operation).toHaveBeenCalledTimes(1);
+		});
+	});
 });
 
 describe("CircuitBreaker", () => {
@@ -342,6 +780,493 @@ describe("CircuitBreaker", () => {
 			expect(circuitBreaker.getFailureCount()).toBe(0);
 		});
 	});
+
+	describe("sliding window modes", () => {
+		const fail = () => Promise.reject(new Error("Test failure"));
+		const succeed = () => Promise.resolve("success");
+
+		it("should open on the failure rate of a count window", async () => {
+			// Arrange
+			const breaker = new CircuitBreaker(3, 100, {
+				slidingWindowType: "count",
+				slidingWindowSize: 10,
+				minimumNumberOfCalls: 6,
+				failureRateThreshold: 55,
+			});
+
+			// Act: alternating failures never reach 3 consecutive failures
+			for (let i = 0; i < 5; i++) {
+				await breaker
+					.execute(i % 2 === 0 ? fail : succeed, "testOperation")
+					.catch(() => undefined);
+			}
+			expect(breaker.getState()).toBe("CLOSED");
+			await breaker.execute(succeed, "testOperation");
+			expect(breaker.getState()).toBe("CLOSED"); // 3 failures out of 6 calls: 50%
+			await breaker.execute(fail, "testOperation").catch(() => undefined);
+
+			// Assert: 4 failures out of 7 calls
+			expect(breaker.getState()).toBe("OPEN");
+		});
+
+		it("should not evaluate the rates before the minimum number of calls", async () => {
+			// Arrange
+			const breaker = new CircuitBreaker(3, 100, {
+				slidingWindowType: "count",
+				minimumNumberOfCalls: 5,
+			});
+
+			// Act
+			for (let i = 0; i < 4; i++) {
+				await breaker.execute(fail, "testOperation").catch(() => undefined);
+			}
+
+			// Assert
+			expect(breaker.getState()).toBe("CLOSED");
+		});
+
+		it("should forget failures older than a time window", async () => {
+			// Arrange
+			const breaker = new CircuitBreaker(3, 100, {
+				slidingWindowType: "time",
+				slidingWindowDurationMs: 1000,
+				minimumNumberOfCalls: 2,
+			});
+
+			// Act
+			await breaker.execute(fail, "testOperation").catch(() => undefined);
+			mockDateNow.mockReturnValue(1500);
+			await breaker.execute(succeed, "testOperation");
+			await breaker.execute(succeed, "testOperation");
+
+			// Assert: the first failure left the window
+			expect(breaker.getState()).toBe("CLOSED");
+			await breaker.execute(fail, "testOperation").catch(() => undefined);
+			await breaker.execute(fail, "testOperation").catch(() => undefined);
+			expect(breaker.getState()).toBe("OPEN");
+		});
+
+		it("should open on the slow call rate", async () => {
+			// Arrange
+			const breaker = new CircuitBreaker(3, 100, {
+				slidingWindowType: "count",
+				minimumNumberOfCalls: 2,
+				slowCallDurationThresholdMs: 50,
+				slowCallRateThreshold: 100,
+			});
+			let now = 0;
+			mockDateNow.mockImplementation(() => now);
+			const slow = () => {
+				now += 100;
+				return Promise.resolve("success");
+			};
+
+			// Act
+			await breaker.execute(slow, "testOperation");
+			await breaker.execute(slow, "testOperation");
+
+			// Assert
+			expect(breaker.getState()).toBe("OPEN");
+			now += 100;
+			await breaker.execute(succeed, "testOperation");
+			expect(breaker.getState()).toBe("CLOSED");
+		});
+
+		it("should reopen on a failure in half-open state", async () => {
+			// Arrange
+			const breaker = new CircuitBreaker(3, 100, {
+				slidingWindowType: "count",
+				minimumNumberOfCalls: 1,
+			});
+			await breaker.execute(fail, "testOperation").catch(() => undefined);
+			expect(breaker.getState()).toBe("OPEN");
+
+			// Act
+			mockDateNow.mockReturnValue(200);
+			await breaker.execute(fail, "testOperation").catch(() => undefined);
+
+			// Assert
+			expect(breaker.getState()).toBe("OPEN");
+			await expect(breaker.execute(succeed, "testOperation")).rejects.toThrow(
+				"Circuit breaker is open for testOperation",
+			);
+		});
+	});
+
+	describe("half-open probing", () => {
+		const fail = () => Promise.reject(new Error("Test failure"));
+
+		const openCircuit = async (breaker: CircuitBreaker) => {
+			while (breaker.getState() !== "OPEN") {
+				await breaker.execute(fail, "testOperation").catch(() => undefined);
+			}
+			// Advance time past the reset timeout
+			mockDateNow.mockReturnValue(1000);
+		};
+
+		const deferred = () => {
+			let resolve: (value: string) => void = () => {};
+			const promise = new Promise<string>((res) => {
+				resolve = res;
+			});
+			return { promise, resolve };
+		};
+
+		it("should reject callers beyond the permitted probe calls", async () => {
+			// Arrange
+			const breaker = new CircuitBreaker(3, 100, {
+				permittedCallsInHalfOpen: 2,
+			});
+			await openCircuit(breaker);
+			const firstProbe = deferred();
+			const secondProbe = deferred();
+
+			// Act
+			const first = breaker.execute(() => firstProbe.promise, "testOperation");
+			const second = breaker.execute(
+				() => secondProbe.promise,
+				"testOperation",
+			);
+			const third = breaker.execute(
+				() => Promise.resolve("ok"),
+				"testOperation",
+			);
+
+			// Assert
+			await expect(third).rejects.toThrow(
+				"Circuit breaker is open for testOperation",
+			);
+			expect(breaker.getState()).toBe("HALF_OPEN");
+			firstProbe.resolve("first");
+			secondProbe.resolve("second");
+			expect(await first).toBe("first");
+			expect(await second).toBe("second");
+			expect(breaker.getState()).toBe("CLOSED");
+		});
+
+		it("should close once the success threshold is reached", async () => {
+			// Arrange
+			const breaker = new CircuitBreaker(3, 100, {
+				permittedCallsInHalfOpen: 3,
+				halfOpenSuccessThreshold: 2,
+			});
+			await openCircuit(breaker);
+
+			// Act & Assert
+			await breaker.execute(() => Promise.resolve("ok"), "testOperation");
+			expect(breaker.getState()).toBe("HALF_OPEN");
+			await breaker.execute(() => Promise.resolve("ok"), "testOperation");
+			expect(breaker.getState()).toBe("CLOSED");
+		});
+
+		it("should reopen immediately on a probe failure", async () => {
+			// Arrange
+			const breaker = new CircuitBreaker(3, 100, {
+				permittedCallsInHalfOpen: 3,
+			});
+			await openCircuit(breaker);
+
+			// Act
+			await breaker.execute(() => Promise.resolve("ok"), "testOperation");
+			await breaker.execute(fail, "testOperation").catch(() => undefined);
+
+			// Assert
+			expect(breaker.getState()).toBe("OPEN");
+		});
+
+		it("should tolerate probe failures up to the failure threshold", async () => {
+			// Arrange
+			const breaker = new CircuitBreaker(3, 100, {
+				permittedCallsInHalfOpen: 4,
+				halfOpenSuccessThreshold: 3,
+				halfOpenFailureThreshold: 2,
+			});
+			await openCircuit(breaker);
+
+			// Act
+			await breaker.execute(fail, "testOperation").catch(() => undefined);
+			expect(breaker.getState()).toBe("HALF_OPEN");
+			await breaker.execute(fail, "testOperation").catch(() => undefined);
+
+			// Assert
+			expect(breaker.getState()).toBe("OPEN");
+		});
+
+		it("should free the probe slot of a cancelled call", async () => {
+			// Arrange
+			const breaker = new CircuitBreaker(3, 100);
+			await openCircuit(breaker);
+			const controller = new AbortController();
+
+			// Act
+			await breaker
+				.execute(
+					() => {
+						controller.abort();
+						return Promise.reject(controller.signal.reason);
+					},
+					"testOperation",
+					controller.signal,
+				)
+				.catch(() => undefined);
+			const result = await breaker.execute(
+				() => Promise.resolve("ok"),
+				"testOperation",
+			);
+
+			// Assert
+			expect(result).toBe("ok");
+			expect(breaker.getState()).toBe("CLOSED");
+		});
+	});
+
+	describe("events and metrics", () => {
+		const fail = () => Promise.reject(new Error("Test failure"));
+
+		it("should reject calls with a CircuitOpenError telling when to retry", async () => {
+			// Arrange
+			for (let i = 0; i < 3; i++) {
+				await circuitBreaker.execute(fail, "testOperation").catch(() => {});
+			}
+			mockDateNow.mockReturnValue(40);
+
+			// Act
+			const error = await circuitBreaker
+				.execute(() => Promise.resolve("ok"), "testOperation")
+				.catch((e) => e);
+
+			// Assert
+			expect(error).toBeInstanceOf(CircuitOpenError);
+			expect(error).toMatchObject({
+				operationName: "testOperation",
+				retryAfterMs: 60,
+			});
+		});
+
+		it("should emit state changes, calls and rejections", async () => {
+			// Arrange
+			const stateChanges: CircuitStateChangeEvent[] = [];
+			const onSuccess = jest.fn();
+			const onFailure = jest.fn();
+			const onRejected = jest.fn();
+			circuitBreaker.on("stateChange", (event) => stateChanges.push(event));
+			circuitBreaker.on("success", onSuccess);
+			circuitBreaker.on("failure", onFailure);
+			circuitBreaker.on("rejected", onRejected);
+
+			// Act
+			await circuitBreaker.execute(
+				() => Promise.resolve("ok"),
+				"testOperation",
+			);
+			for (let i = 0; i < 3; i++) {
+				await circuitBreaker.execute(fail, "testOperation").catch(() => {});
+			}
+			await circuitBreaker.execute(fail, "testOperation").catch(() => {});
+			mockDateNow.mockReturnValue(1000);
+			await circuitBreaker.execute(
+				() => Promise.resolve("ok"),
+				"testOperation",
+			);
+
+			// Assert
+			expect(stateChanges).toEqual([
+				{ from: "CLOSED", to: "OPEN", operationName: "testOperation" },
+				{ from: "OPEN", to: "HALF_OPEN", operationName: "testOperation" },
+				{ from: "HALF_OPEN", to: "CLOSED", operationName: "testOperation" },
+			]);
+			expect(onSuccess).toHaveBeenCalledTimes(2);
+			expect(onSuccess).toHaveBeenCalledWith({
+				operationName: "testOperation",
+				durationMs: 0,
+			});
+			expect(onFailure).toHaveBeenCalledTimes(3);
+			expect(onFailure).toHaveBeenCalledWith({
+				operationName: "testOperation",
+				durationMs: 0,
+				error: new Error("Test failure"),
+			});
+			expect(onRejected).toHaveBeenCalledTimes(1);
+			expect(onRejected).toHaveBeenCalledWith(expect.any(CircuitOpenError));
+		});
+
+		it("should not let a throwing listener change the outcome of a call", async () => {
+			// Arrange
+			const breaker = new CircuitBreaker(1, 100);
+			const listenerFailure = new Error("Listener failed");
+			const onListenerError = jest.fn();
+			breaker.on("success", () => {
+				throw listenerFailure;
+			});
+			breaker.on("listenerError", onListenerError);
+
+			// Act
+			const result = await breaker.execute(
+				() => Promise.resolve("ok"),
+				"testOperation",
+			);
+
+			// Assert
+			expect(result).toBe("ok");
+			expect(breaker.getState()).toBe("CLOSED");
+			expect(breaker.getMetrics()).toMatchObject({
+				successfulCalls: 1,
+				failedCalls: 0,
+			});
+			expect(onListenerError).toHaveBeenCalledWith(listenerFailure, "success");
+		});
+
+		it("should count calls and time spent in each state", async () => {
+			// Arrange
+			const breaker = new CircuitBreaker(2, 100, {
+				slowCallDurationThresholdMs: 5,
+			});
+
+			// Act
+			await breaker.execute(async () => {
+				mockDateNow.mockReturnValue(10);
+				return "ok";
+			}, "testOperation");
+			await breaker.execute(fail, "testOperation").catch(() => {});
+			await breaker.execute(fail, "testOperation").catch(() => {});
+			mockDateNow.mockReturnValue(50);
+			await breaker.execute(fail, "testOperation").catch(() => {});
+			mockDateNow.mockReturnValue(80);
+
+			// Assert
+			expect(breaker.getMetrics()).toEqual({
+				state: "OPEN",
+				calls: 3,
+				successfulCalls: 1,
+				failedCalls: 2,
+				slowCalls: 1,
+				rejectedCalls: 1,
+				failureRate: (2 / 3) * 100,
+				timeInStateMs: { CLOSED: 10, OPEN: 70, HALF_OPEN: 0 },
+			});
+		});
+	});
+
+	describe("cancellation", () => {
+		it("should pass the signal to the operation", async () => {
+			// Arrange
+			const controller = new AbortController();
+			const operation = jest.fn().mockResolvedValue("success");
+
+			// Act
+			await circuitBreaker.execute(
+				operation,
+				"testOperation",
+				controller.signal,
+			);
+
+			// Assert
+			expect(operation).toHaveBeenCalledWith(controller.signal);
+		});
+
+		it("should not count cancelled operations as failures", async () => {
+			// Arrange
+			const controller = new AbortController();
+			const operation = jest.fn(() => {
+				controller.abort();
+				return Promise.reject(controller.signal.reason);
+			});
+
+			// Act & Assert
+			await expect(
+				circuitBreaker.execute(operation, "testOperation", controller.signal),
+			).rejects.toThrow("aborted");
+			expect(circuitBreaker.getFailureCount()).toBe(0);
+		});
+
+		it("should not run the operation when the signal is already aborted", async () => {
+			// Arrange
+			const controller = new AbortController();
+			controller.abort();
+			const operation = jest.fn().mockResolvedValue("success");
+
+			// Act & Assert
+			await expect(
+				circuitBreaker.execute(operation, "testOperation", controller.signal),
+			).rejects.toMatchObject({ name: "AbortError" });
+			expect(operation).not.toHaveBeenCalled();
+		});
+	});
+});
+
+describe("TimeoutHandler", () => {
+	const hang = (signal?: AbortSignal) =>
+		new Promise<string>((_resolve, reject) => {
+			signal?.addEventListener("abort", () => reject(signal.reason));
+		});
+
+	it("should resolve with the result of a timely operation", async () => {
+		// Arrange
+		const timeoutHandler = new TimeoutHandler(1000);
+		const operation = jest.fn().mockResolvedValue("success");
+
+		// Act
+		const result = await timeoutHandler.execute(operation, "testOperation");
+
+		// Assert
+		expect(result).toBe("success");
+		expect(operation).toHaveBeenCalledWith(expect.any(AbortSignal));
+	});
+
+	it("should reject with a TimeoutError and abort the operation", async () => {
+		// Arrange
+		const timeoutHandler = new TimeoutHandler(20);
+		let operationSignal: AbortSignal | undefined;
+
+		// Act
+		const error = await timeoutHandler
+			.execute((signal) => {
+				operationSignal = signal;
+				return new Promise<string>(() => {});
+			}, "testOperation")
+			.catch((e) => e);
+
+		// Assert
+		expect(error).toBeInstanceOf(TimeoutError);
+		expect(error.message).toBe("Operation testOperation timed out after 20ms");
+		expect(operationSignal?.aborted).toBe(true);
+		expect(operationSignal?.reason).toBe(error);
+	});
+
+	it("should reject with the reason of the caller's signal", async () => {
+		// Arrange
+		const timeoutHandler = new TimeoutHandler(1000);
+		const controller = new AbortController();
+
+		// Act
+		const result = timeoutHandler.execute(
+			hang,
+			"testOperation",
+			controller.signal,
+		);
+		controller.abort(new Error("Stopped by caller"));
+
+		// Assert
+		await expect(result).rejects.toThrow("Stopped by caller");
+	});
+
+	it("should count timeouts as circuit breaker failures", async () => {
+		// Arrange
+		const timeoutHandler = new TimeoutHandler(10);
+		const circuitBreaker = new CircuitBreaker(1, 1000);
+
+		// Act
+		await expect(
+			timeoutHandler.execute(
+				(signal) => circuitBreaker.execute(hang, "testOperation", signal),
+				"testOperation",
+			),
+		).rejects.toBeInstanceOf(TimeoutError);
+
+		// Assert
+		expect(circuitBreaker.getFailureCount()).toBe(1);
+		expect(circuitBreaker.getState()).toBe("OPEN");
+	});
 });
 
 describe("ErrorHandler", () => {
@@ -3,10 +3,53 @@
  * @author github/artemkdr
  */
 
-import type { ICircuitBreaker, IErrorHandler, IRetryHandler } from "./types";
+import { EventEmitter } from "node:events";
+import { exponentialBackoff } from "./backoff-strategies";
+import { CircuitOpenError } from "./circuit-open-error";
+import { getRetryAfterMs, isRetryableError } from "./error-classifier";
+import { RetryDeadlineExceededError } from "./retry-deadline-exceeded-error";
+import { RetryExhaustedError } from "./retry-exhausted-error";
+import {
+	CountSlidingWindow,
+	type ISlidingWindow,
+	TimeSlidingWindow,
+} from "./sliding-window";
+import { TimeoutError } from "./timeout-error";
+import type {
+	BackoffStrategy,
+	CircuitBreakerEvents,
+	CircuitBreakerMetrics,
+	CircuitBreakerOptions,
+	CircuitState,
+	ExecutionContext,
+	ICircuitStateStore,
+	ICircuitBreaker,
+	IErrorHandler,
+	IRetryHandler,
+	ITimeoutHandler,
+	RetryAttempt,
+	RetryOptions,
+	StoredCircuitState,
+} from "./types";
+import { withTimeout } from "./with-timeout";
 
 /**
- * Retry utility with exponential backoff.
+ * Attempts of a manual control to save the state while other processes keep saving it.
+ */
+const MAX_STATE_SAVE_ATTEMPTS = 3;
+
+/**
+ * Retry utility with configurable backoff.
+ *
+ * Without a shouldRetry function, errors are classified by `isRetryableError()`:
+ * e.g. an APIError with a 404 status code is not retried, one with a 503 status code is.
+ * The delay requested by an error through its `retryAfterMs` (APIError, RateLimitExceededError, CircuitOpenError)
+ * replaces the backoff delay;
+ * an error requesting a delay longer than maxDelayMs is not retried.
+ *
+ * Once the attempts run out, or when an error is not retried after earlier attempts, a RetryExhaustedError
+ * is thrown, its cause holding the error of every attempt. An error of the first attempt that is not retried
+ * is thrown as is.
  *
  * @example
  * This example demonstrates how to use the RetryHandler to execute an asynchronous operation with retry logic.
@@ -23,38 +66,210 @@ import type { ICircuitBreaker, IErrorHandler, IRetryHandler } from "./types";
  *     console.error("Operation failed after retries:", error);
  * }
  * ```
+ *
+ * @example
+ * Jittered delays capped at 10s, within an overall budget of 30s.
+ * A RetryDeadlineExceededError listing every attempt is thrown when the budget runs out,
+ * the pending attempt being aborted through its signal.
+ * ```typescript
+ * const retryHandler = new RetryHandler(10, 200, {
+ *     backoff: fullJitterBackoff,
+ *     maxDelayMs: 10000,
+ *     deadlineMs: 30000,
+ * });
+ * ```
+ *
+ * @example
+ * Observability of the retries.
+ * ```typescript
+ * const retryHandler = new RetryHandler(5, 500, {
+ *     operationName: "fetchUsers",
+ *     logger,
+ *     onRetry: ({ attempt, delayMs, error }) => metrics.increment("retries", { attempt }),
+ *     onGiveUp: ({ attempts }) => metrics.increment("failures", { attempts: attempts.length }),
+ * });
+ * ```
+ *
+ * @example
+ * Cancellation: the signal is passed to the operation and interrupts the backoff sleeps.
+ * ```typescript
+ * const controller = new AbortController();
+ * const result = retryHandler.execute((signal) => fetch(url, { signal }), undefined, controller.signal);
+ * controller.abort(); // rejects with an AbortError
+ * ```
  */
 export class RetryHandler implements IRetryHandler {
+	private readonly backoff: BackoffStrategy;
+	private readonly maxDelayMs: number;
+	private readonly deadlineMs: number | undefined;
+
 	constructor(
 		private readonly maxAttempts: number = 3,
 		private readonly baseDelayMs: number = 1000,
-	) {}
+		private readonly options: RetryOptions = {},
+	) {
+		this.backoff = options.backoff ?? exponentialBackoff;
+		this.maxDelayMs = options.maxDelayMs ?? Number.POSITIVE_INFINITY;
+		this.deadlineMs = options.deadlineMs;
+	}
 
 	async execute<T>(
-		operation: () => Promise<T>,
-		shouldRetry: (error: Error) => boolean = () => true,
+		operation: (signal?: AbortSignal) => Promise<T>,
+		shouldRetry: (error: Error) => boolean = isRetryableError,
+		signal?: AbortSignal,
 	): Promise<T> {
-		let lastError: Error | undefined;
+		const startedAt = Date.now();
+		const attempts: RetryAttempt[] = [];
+		let previousDelayMs = this.baseDelayMs;
 
 		for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+			signal?.throwIfAborted();
 			try {
-				return await operation();
+				return await this.runAttempt(operation, startedAt, signal);
 			} catch (error) {
-				lastError = error instanceof Error ? error : new Error(String(error));
+				// A cancelled operation is never retried
+				signal?.throwIfAborted();
+				const lastError =
+					error instanceof Error ? error : new Error(String(error));
+				const elapsedMs = Date.now() - startedAt;
+				attempts.push({ attempt, error: lastError, elapsedMs });
 
-				if (attempt === this.maxAttempts || !shouldRetry(lastError)) {
-					throw lastError;
+				if (
+					this.deadlineMs !== undefined &&
+					lastError instanceof TimeoutError &&
+					elapsedMs >= this.deadlineMs
+				) {
+					this.giveUp(attempts);
+					throw new RetryDeadlineExceededError(this.deadlineMs, attempts);
+				}
+				if (!shouldRetry(lastError)) {
+					this.giveUp(attempts);
+					throw this.getFinalError(attempts);
+				}
+				if (attempt === this.maxAttempts) {
+					this.giveUp(attempts);
+					throw new RetryExhaustedError(
+						attempts,
+						undefined,
+						this.options.operationName,
+					);
 				}
 
-				const delayMs = this.baseDelayMs * 2 ** (attempt - 1);
-				await this.delay(delayMs);
+				const retryAfterMs = getRetryAfterMs(lastError);
+				// Retrying sooner than requested would only fail again
+				if (retryAfterMs !== undefined && retryAfterMs > this.maxDelayMs) {
+					this.giveUp(attempts);
+					throw this.getFinalError(attempts);
+				}
+				const delayMs = this.getDelay(attempt, previousDelayMs, retryAfterMs);
+				// Give up as soon as the next attempt could not start within the budget
+				if (
+					this.deadlineMs !== undefined &&
+					elapsedMs + delayMs >= this.deadlineMs
+				) {
+					this.giveUp(attempts);
+					throw new RetryDeadlineExceededError(this.deadlineMs, attempts);
+				}
+				this.options.logger?.warn(
+					`Attempt ${attempt} of ${this.options.operationName ?? "operation"} failed, retrying in ${delayMs}ms`,
+					{ attempt, delayMs, error: lastError.message },
+				);
+				this.options.onRetry?.({
+					attempt,
+					error: lastError,
+					elapsedMs,
+					delayMs,
+				});
+				previousDelayMs = delayMs;
+				await this.delay(delayMs, signal);
 			}
 		}
 		return Promise.reject();
 	}
 
-	private delay(ms: number): Promise<void> {
-		return new Promise((resolve) => setTimeout(resolve, ms));
+	/**
+	 * Report an execution failing for good to the logger and the onGiveUp hook.
+	 */
+	private giveUp(attempts: RetryAttempt[]): void {
+		const last = attempts.at(-1);
+		if (!last) {
+			return;
+		}
+		this.options.logger?.error(
+			`${this.options.operationName ?? "Operation"} failed after ${attempts.length} attempt(s)`,
+			{ attempts: attempts.length, error: last.error.message },
+		);
+		this.options.onGiveUp?.({ ...last, attempts: [...attempts] });
+	}
+
+	/**
+	 * Error of an execution given up before running out of attempts: the error of the first attempt as is,
+	 * a RetryExhaustedError keeping the error of every attempt after retries.
+	 */
+	private getFinalError(attempts: RetryAttempt[]): Error {
+		const [first] = attempts;
+		if (attempts.length === 1 && first) {
+			return first.error;
+		}
+		return new RetryExhaustedError(
+			attempts,
+			undefined,
+			this.options.operationName,
+		);
+	}
+
+	/**
+	 * Run an attempt, aborted through its signal once the deadline is reached.
+	 */
+	private runAttempt<T>(
+		operation: (signal?: AbortSignal) => Promise<T>,
+		startedAt: number,
+		signal?: AbortSignal,
+	): Promise<T> {
+		if (this.deadlineMs === undefined) {
+			return operation(signal);
+		}
+		return withTimeout(operation, this.deadlineMs - (Date.now() - startedAt), {
+			operationName: this.options.operationName,
+			signal,
+		});
+	}
+
+	/**
+	 * Delay before the next attempt: the delay requested by the error if any,
+	 * the backoff delay bounded by maxDelayMs otherwise.
+	 */
+	private getDelay(
+		attempt: number,
+		previousDelayMs: number,
+		retryAfterMs: number | undefined,
+	): number {
+		if (retryAfterMs !== undefined) {
+			return Math.max(0, retryAfterMs);
+		}
+		const delayMs = this.backoff({
+			attempt,
+			baseDelayMs: this.baseDelayMs,
+			previousDelayMs,
+		});
+		return Math.max(0, Math.min(delayMs, this.maxDelayMs));
+	}
+
+	/**
+	 * Sleep, rejecting with the abort reason as soon as the signal is aborted.
+	 */
+	private delay(ms: number, signal?: AbortSignal): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const onAbort = () => {
+				clearTimeout(timer);
+				reject(signal?.reason);
+			};
+			const timer = setTimeout(() => {
+				signal?.removeEventListener("abort", onAbort);
+				resolve();
+			}, ms);
+			signal?.addEventListener("abort", onAbort, { once: true });
+		});
 	}
 }
 
@@ -68,76 +283,568 @@ export class RetryHandler implements IRetryHandler {
  * const circuitBreaker = new CircuitBreaker(3, 30000);
  * try {
  *     const result = await circuitBreaker.execute(asyncOperation, "AsyncOperation");
+ *     // The signal is passed to the operation; cancelled calls do not count as failures
+ *     const response = await circuitBreaker.execute((signal) => fetch(url, { signal }), "Fetch", controller.signal);
  * } catch (error) {
  *     console.error("Operation failed:", error);
  * }
  * ```
+ *
+ * @example
+ * Under high traffic, a failure rate is more telling than consecutive failures.
+ * This circuit breaker opens when at least half of the calls of the last minute failed, or when 80% of them
+ * took more than 2 seconds, once at least 20 calls were made.
+ * ```typescript
+ * const circuitBreaker = new CircuitBreaker(5, 30000, {
+ *     slidingWindowType: "time",
+ *     slidingWindowDurationMs: 60000,
+ *     failureRateThreshold: 50,
+ *     minimumNumberOfCalls: 20,
+ *     slowCallDurationThresholdMs: 2000,
+ *     slowCallRateThreshold: 80,
+ * });
+ * ```
+ *
+ * @example
+ * Once the reset timeout has passed, 3 probe calls are let through: the circuit closes if 2 of them succeed,
+ * and reopens as soon as one of them fails. Other callers are rejected meanwhile.
+ * ```typescript
+ * const circuitBreaker = new CircuitBreaker(5, 30000, {
+ *     permittedCallsInHalfOpen: 3,
+ *     halfOpenSuccessThreshold: 2,
+ *     halfOpenFailureThreshold: 1,
+ * });
+ * ```
+ *
+ * @example
+ * Calls rejected by the open circuit throw a CircuitOpenError telling when to try again.
+ * Transitions and calls are emitted as events, and counted in the metrics.
+ * ```typescript
+ * circuitBreaker.on("stateChange", ({ from, to, operationName }) => {
+ *     logger.warn(`Circuit of ${operationName} went from ${from} to ${to}`);
+ * });
+ * try {
+ *     await circuitBreaker.execute(asyncOperation, "AsyncOperation");
+ * } catch (error) {
+ *     if (error instanceof CircuitOpenError) {
+ *         response.setHeader("Retry-After", Math.ceil(error.retryAfterMs / 1000));
+ *     }
+ * }
+ * const { failureRate, rejectedCalls } = circuitBreaker.getMetrics();
+ * ```
  */
-export class CircuitBreaker implements ICircuitBreaker {
+export class CircuitBreaker
+	extends EventEmitter<CircuitBreakerEvents>
+	implements ICircuitBreaker
+{
 	private failures = 0;
-	private lastFailureTime?: number | undefined;
-	private state: "CLOSED" | "OPEN" | "HALF_OPEN" = "CLOSED";
+	private openedAt?: number | undefined;
+	private forcedOpen = false;
+	private state: CircuitState = "CLOSED";
+	private stateEnteredAt = Date.now();
+	private readonly timeInStateMs: Record<CircuitState, number> = {
+		CLOSED: 0,
+		OPEN: 0,
+		HALF_OPEN: 0,
+	};
+	private successfulCalls = 0;
+	private failedCalls = 0;
+	private slowCalls = 0;
+	private rejectedCalls = 0;
+	private readonly window: ISlidingWindow | undefined;
+	private readonly failureRateThreshold: number;
+	private readonly minimumNumberOfCalls: number;
+	private readonly slowCallDurationThresholdMs: number;
+	private readonly slowCallRateThreshold: number;
+	private readonly permittedCallsInHalfOpen: number;
+	private readonly halfOpenSuccessThreshold: number;
+	private readonly halfOpenFailureThreshold: number;
+	private halfOpenCalls = 0;
+	private halfOpenSuccesses = 0;
+	private halfOpenFailures = 0;
+	private readonly stateStore: ICircuitStateStore | undefined;
+	private readonly stateKey: string;
+	private readonly stateSyncIntervalMs: number;
+	private readonly stateStoreTimeoutMs: number;
+	private stateVersion = 0;
+	private stateSyncedAt: number | undefined;
+	private stateChanged = false;
 
+	/**
+	 * @param failureThreshold Consecutive failures opening the circuit (consecutive mode only).
+	 * @param resetTimeoutMs Time the circuit stays open before a call is let through.
+	 * @param options Sliding window mode, thresholds and state store.
+	 */
 	constructor(
 		private readonly failureThreshold: number = 5,
 		private readonly resetTimeoutMs: number = 60000,
-	) {}
+		options: CircuitBreakerOptions = {},
+	) {
+		super();
+		const type = options.slidingWindowType ?? "consecutive";
+		this.window =
+			type === "count"
+				? new CountSlidingWindow(options.slidingWindowSize ?? 100)
+				: type === "time"
+					? new TimeSlidingWindow(options.slidingWindowDurationMs ?? 60000)
+					: undefined;
+		this.failureRateThreshold = options.failureRateThreshold ?? 50;
+		this.minimumNumberOfCalls = options.minimumNumberOfCalls ?? 10;
+		this.slowCallDurationThresholdMs =
+			options.slowCallDurationThresholdMs ?? Number.POSITIVE_INFINITY;
+		this.slowCallRateThreshold = options.slowCallRateThreshold ?? 100;
+		this.permittedCallsInHalfOpen = options.permittedCallsInHalfOpen ?? 1;
+		this.halfOpenSuccessThreshold = Math.min(
+			options.halfOpenSuccessThreshold ?? this.permittedCallsInHalfOpen,
+			this.permittedCallsInHalfOpen,
+		);
+		this.halfOpenFailureThreshold = options.halfOpenFailureThreshold ?? 1;
+		if (options.stateStore && !options.stateKey) {
+			throw new Error("A state key is required to use a circuit state store");
+		}
+		this.stateStore = options.stateStore;
+		this.stateKey = options.stateKey ?? "";
+		this.stateSyncIntervalMs = options.stateSyncIntervalMs ?? 1000;
+		this.stateStoreTimeoutMs = options.stateStoreTimeoutMs ?? 1000;
+	}
 
 	async execute<T>(
-		operation: () => Promise<T>,
+		operation: (signal?: AbortSignal) => Promise<T>,
 		operationName: string,
+		signal?: AbortSignal,
+		context?: ExecutionContext,
 	): Promise<T> {
+		signal?.throwIfAborted();
+		if (this.stateStore) {
+			await this.loadState(operationName);
+		}
 		if (this.state === "OPEN") {
+			if (this.forcedOpen) {
+				throw this.reject(operationName, this.resetTimeoutMs);
+			}
 			if (this.shouldAttemptReset()) {
-				this.state = "HALF_OPEN";
+				this.halfOpen(operationName);
 			} else {
-				throw new Error(`Circuit breaker is open for ${operationName}`);
+				throw this.reject(
+					operationName,
+					(this.openedAt ?? 0) + this.resetTimeoutMs - Date.now(),
+				);
+			}
+		}
+
+		// In half-open state, only the permitted probe calls go through
+		const isProbe = this.state === "HALF_OPEN";
+		if (isProbe) {
+			if (this.halfOpenCalls >= this.permittedCallsInHalfOpen) {
+				throw this.reject(operationName, 0);
 			}
+			this.halfOpenCalls++;
 		}
 
+		const startedAt = Date.now();
+		let result: T;
 		try {
-			const result = await operation();
-			this.onSuccess();
-			return result;
+			result = await operation(signal);
 		} catch (error) {
-			this.onFailure();
+			// Cancellation by the caller says nothing about the health of the operation,
+			// unlike a time limit being reached
+			if (!signal?.aborted || signal.reason instanceof TimeoutError) {
+				const durationMs = Date.now() - startedAt;
+				this.countCall(durationMs, false);
+				this.onFailure(durationMs, isProbe, operationName);
+				this.notify("failure", {
+					operationName,
+					attempt: context?.attempt,
+					durationMs,
+					error,
+				});
+				await this.saveState(operationName);
+			} else if (isProbe && this.state === "HALF_OPEN") {
+				// Let another caller probe instead
+				this.halfOpenCalls--;
+			}
 			throw error;
 		}
+
+		const durationMs = Date.now() - startedAt;
+		this.countCall(durationMs, true);
+		this.onSuccess(durationMs, isProbe, operationName);
+		this.notify("success", {
+			operationName,
+			attempt: context?.attempt,
+			durationMs,
+		});
+		await this.saveState(operationName);
+		return result;
+	}
+
+	/**
+	 * Emit an event, reporting the errors thrown by its listeners as "listenerError"
+	 * so that they do not change the outcome of the call.
+	 */
+	private notify<K extends keyof CircuitBreakerEvents>(
+		event: K,
+		...args: CircuitBreakerEvents[K]
+	): void {
+		try {
+			this.emit(event, ...(args as never));
+		} catch (error) {
+			try {
+				this.emit("listenerError", error, event);
+			} catch {
+				// A throwing listenerError listener has nowhere else to report to
+			}
+		}
 	}
 
 	private shouldAttemptReset(): boolean {
 		return (
-			this.lastFailureTime !== undefined &&
-			Date.now() - this.lastFailureTime >= this.resetTimeoutMs
+			this.openedAt !== undefined &&
+			Date.now() - this.openedAt >= this.resetTimeoutMs
 		);
 	}
 
-	private onSuccess(): void {
-		this.failures = 0;
-		this.lastFailureTime = undefined;
-		if (this.state === "HALF_OPEN") {
-			this.state = "CLOSED";
+	private reject(
+		operationName: string,
+		retryAfterMs: number,
+	): CircuitOpenError {
+		this.rejectedCalls++;
+		const error = new CircuitOpenError(
+			operationName,
+			Math.max(0, retryAfterMs),
+		);
+		this.notify("rejected", error);
+		return error;
+	}
+
+	private countCall(durationMs: number, succeeded: boolean): void {
+		if (succeeded) {
+			this.successfulCalls++;
+		} else {
+			this.failedCalls++;
+		}
+		if (durationMs > this.slowCallDurationThresholdMs) {
+			this.slowCalls++;
 		}
 	}
 
-	private onFailure(): void {
+	private onSuccess(
+		durationMs: number,
+		isProbe: boolean,
+		operationName: string,
+	): void {
+		if (this.failures > 0) {
+			this.failures = 0;
+			this.stateChanged = true;
+		}
+		if (isProbe) {
+			if (this.state === "HALF_OPEN") {
+				this.halfOpenSuccesses++;
+				this.evaluateProbes(operationName);
+			}
+			return;
+		}
+		this.record({ failed: false, durationMs }, operationName);
+	}
+
+	private onFailure(
+		durationMs: number,
+		isProbe: boolean,
+		operationName: string,
+	): void {
 		this.failures++;
-		this.lastFailureTime = Date.now();
+		this.stateChanged = true;
+
+		if (isProbe) {
+			if (this.state === "HALF_OPEN") {
+				this.halfOpenFailures++;
+				this.evaluateProbes(operationName);
+			}
+			return;
+		}
+		if (!this.window) {
+			if (this.state === "CLOSED" && this.failures >= this.failureThreshold) {
+				this.open(operationName);
+			}
+			return;
+		}
+		this.record({ failed: true, durationMs }, operationName);
+	}
+
+	/**
+	 * Close the circuit once enough probe calls succeeded, reopen it once enough failed
+	 * or when every permitted probe call completed without closing it.
+	 */
+	private evaluateProbes(operationName: string): void {
+		if (this.halfOpenFailures >= this.halfOpenFailureThreshold) {
+			this.open(operationName);
+		} else if (this.halfOpenSuccesses >= this.halfOpenSuccessThreshold) {
+			this.close(operationName);
+		} else if (
+			this.halfOpenSuccesses + this.halfOpenFailures >=
+			this.permittedCallsInHalfOpen
+		) {
+			this.open(operationName);
+		}
+	}
+
+	/**
+	 * Record a call in the sliding window, opening the circuit
+	 * when the failure rate or the slow call rate reaches its threshold.
+	 */
+	private record(
+		{ failed, durationMs }: { failed: boolean; durationMs: number },
+		operationName: string,
+	): void {
+		if (!this.window) {
+			return;
+		}
+		const now = Date.now();
+		this.window.record(
+			{ failed, slow: durationMs > this.slowCallDurationThresholdMs },
+			now,
+		);
+		const snapshot = this.window.getSnapshot(now);
+		if (
+			snapshot.calls >= this.minimumNumberOfCalls &&
+			(snapshot.failureRate >= this.failureRateThreshold ||
+				snapshot.slowCallRate >= this.slowCallRateThreshold)
+		) {
+			this.open(operationName);
+		}
+	}
+
+	private halfOpen(operationName: string): void {
+		this.halfOpenCalls = 0;
+		this.halfOpenSuccesses = 0;
+		this.halfOpenFailures = 0;
+		this.setState("HALF_OPEN", operationName);
+	}
+
+	private open(operationName: string): void {
+		this.openedAt = Date.now();
+		this.window?.reset();
+		this.setState("OPEN", operationName);
+	}
+
+	private close(operationName: string): void {
+		this.openedAt = undefined;
+		this.failures = 0;
+		this.window?.reset();
+		this.setState("CLOSED", operationName);
+	}
 
-		if (this.failures >= this.failureThreshold) {
-			this.state = "OPEN";
+	private setState(to: CircuitState, operationName: string): void {
+		const from = this.state;
+		if (from === to) {
+			return;
 		}
+		const now = Date.now();
+		this.timeInStateMs[from] += now - this.stateEnteredAt;
+		this.stateEnteredAt = now;
+		this.state = to;
+		this.stateChanged = true;
+		this.notify("stateChange", { from, to, operationName });
 	}
 
-	getState() {
+	/**
+	 * Adopt the state saved by another process since the last sync.
+	 */
+	private async loadState(operationName: string): Promise<void> {
+		const now = Date.now();
+		if (
+			!this.stateStore ||
+			(this.stateSyncedAt !== undefined &&
+				now - this.stateSyncedAt < this.stateSyncIntervalMs)
+		) {
+			return;
+		}
+		this.stateSyncedAt = now;
+		try {
+			const stored = await this.callStore((store) => store.get(this.stateKey));
+			if (stored && stored.version > this.stateVersion) {
+				this.adoptState(stored, operationName);
+			}
+		} catch (error) {
+			this.notify("stateStoreError", error);
+		}
+	}
+
+	/**
+	 * Call the state store within stateStoreTimeoutMs, so that a slow or hanging store
+	 * does not keep the circuit from failing fast. Timeouts are reported as stateStoreError.
+	 */
+	private callStore<T>(
+		call: (store: ICircuitStateStore) => Promise<T>,
+	): Promise<T> {
+		const store = this.stateStore as ICircuitStateStore;
+		return withTimeout(() => call(store), this.stateStoreTimeoutMs, {
+			operationName: `circuit state store (${this.stateKey})`,
+		});
+	}
+
+	private adoptState(stored: StoredCircuitState, operationName: string): void {
+		this.stateVersion = stored.version;
+		this.failures = stored.failures;
+		this.openedAt = stored.openedAt;
+		this.forcedOpen = stored.forcedOpen;
+		if (stored.state !== this.state) {
+			if (stored.state === "HALF_OPEN") {
+				this.halfOpenCalls = 0;
+				this.halfOpenSuccesses = 0;
+				this.halfOpenFailures = 0;
+			} else {
+				this.window?.reset();
+			}
+			this.setState(stored.state, operationName);
+		}
+		this.stateChanged = false;
+	}
+
+	/**
+	 * Save the state for the other processes, if it changed, unless another process saved
+	 * the circuit since the last sync: its state is then adopted, the local transition being
+	 * dropped, as the local calls are re-evaluated against it.
+	 * Manual controls (`force`) overwrite the state saved in the meantime instead.
+	 */
+	private async saveState(operationName: string, force = false): Promise<void> {
+		if (!this.stateStore || !this.stateChanged) {
+			return;
+		}
+		this.stateChanged = false;
+		const snapshot = {
+			state: this.state,
+			failures: this.failures,
+			openedAt: this.openedAt,
+			forcedOpen: this.forcedOpen,
+		};
+		try {
+			let expectedVersion = this.stateVersion;
+			for (let attempt = 1; ; attempt++) {
+				const stored = await this.callStore((store) =>
+					store.set(this.stateKey, snapshot, expectedVersion),
+				);
+				if (stored) {
+					this.stateVersion = stored.version;
+					return;
+				}
+				const current = await this.callStore((store) =>
+					store.get(this.stateKey),
+				);
+				this.stateSyncedAt = Date.now();
+				if (current && !force) {
+					this.adoptState(current, operationName);
+					return;
+				}
+				if (attempt === MAX_STATE_SAVE_ATTEMPTS) {
+					throw new Error(
+						`Circuit state of ${this.stateKey} kept changing while being saved`,
+					);
+				}
+				expectedVersion = current?.version ?? 0;
+			}
+		} catch (error) {
+			this.notify("stateStoreError", error);
+		}
+	}
+
+	/**
+	 * Open the circuit until forceClose or reset is called, whatever the reset timeout.
+	 * Rejected calls report the reset timeout as their retry delay.
+	 * @returns Promise resolved once the state is saved to the state store.
+	 */
+	forceOpen(operationName = "operation"): Promise<void> {
+		this.forcedOpen = true;
+		this.stateChanged = true;
+		this.open(operationName);
+		return this.saveState(operationName, true);
+	}
+
+	/**
+	 * Close the circuit, which opens again on failures.
+	 * @returns Promise resolved once the state is saved to the state store.
+	 */
+	forceClose(operationName = "operation"): Promise<void> {
+		this.forcedOpen = false;
+		this.stateChanged = true;
+		this.close(operationName);
+		return this.saveState(operationName, true);
+	}
+
+	/**
+	 * Close the circuit and clear its metrics.
+	 * @returns Promise resolved once the state is saved to the state store.
+	 */
+	reset(operationName = "operation"): Promise<void> {
+		const saved = this.forceClose(operationName);
+		this.successfulCalls = 0;
+		this.failedCalls = 0;
+		this.slowCalls = 0;
+		this.rejectedCalls = 0;
+		this.timeInStateMs.CLOSED = 0;
+		this.timeInStateMs.OPEN = 0;
+		this.timeInStateMs.HALF_OPEN = 0;
+		this.stateEnteredAt = Date.now();
+		return saved;
+	}
+
+	getState(): CircuitState {
 		return this.state;
 	}
 
+	/**
+	 * Get the metrics of the circuit breaker, counted since its creation or last reset.
+	 * Calls cancelled by the caller are not counted.
+	 */
+	getMetrics(): CircuitBreakerMetrics {
+		const calls = this.successfulCalls + this.failedCalls;
+		return {
+			state: this.state,
+			calls,
+			successfulCalls: this.successfulCalls,
+			failedCalls: this.failedCalls,
+			slowCalls: this.slowCalls,
+			rejectedCalls: this.rejectedCalls,
+			failureRate: calls === 0 ? 0 : (this.failedCalls / calls) * 100,
+			timeInStateMs: {
+				...this.timeInStateMs,
+				[this.state]:
+					this.timeInStateMs[this.state] + Date.now() - this.stateEnteredAt,
+			},
+		};
+	}
+
 	getFailureCount(): number {
 		return this.failures;
 	}
 }
 
+/**
+ * Time limit for asynchronous operations, see `withTimeout()`.
+ *
+ * @example
+ * This example demonstrates how to stop waiting for a hanging query after 5 seconds.
+ * The operation receives a signal aborted on timeout, and the circuit breaker counts the TimeoutError as a failure.
+ * ```typescript
+ * const timeoutHandler = new TimeoutHandler(5000);
+ * const rows = await circuitBreaker.execute(
+ *     (signal) => timeoutHandler.execute((timeoutSignal) => queryUsers(timeoutSignal), "queryUsers", signal),
+ *     "queryUsers",
+ * );
+ * ```
+ */
+export class TimeoutHandler implements ITimeoutHandler {
+	constructor(private readonly timeoutMs: number = 30000) {}
+
+	execute<T>(
+		operation: (signal: AbortSignal) => Promise<T>,
+		operationName?: string,
+		signal?: AbortSignal,
+	): Promise<T> {
+		return withTimeout(operation, this.timeoutMs, { operationName, signal });
+	}
+}
+
 /**
  * Error handler utility functions.
  *
@@ -179,8 +886,7 @@ export class ErrorHandler implements IErrorHandler {
 	handleError<T extends Error>(
 		error: unknown,
 		ErrorClass: new (message: string) => T,
-		options?: Omit<T, "message" | "name" | "cause"> &
-			Partial<Pick<T, "message">>,
+		options?: Partial<Omit<T, "name" | "cause">>,
 	): T {
 		// Default to Error if no class provided
 		const ErrClass = ErrorClass ?? Error;
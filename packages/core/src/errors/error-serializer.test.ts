@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Unit tests for error serialization.
+ */
+
+import { describe, expect, it } from "bun:test";
+import { ZodError } from "zod";
+import { APIError } from "./api-error";
+import { ConfigurationError } from "./configuration-error";
+import { DataFetchError } from "./data-fetch-error";
+import { DataValidationError } from "./data-validation-error";
+import { DatabaseError } from "./database-error";
+import {
+	deserializeError,
+	ErrorRegistry,
+	isSerializedError,
+	serializeError,
+} from "./error-serializer";
+import { RetryExhaustedError } from "./retry-exhausted-error";
+
+class PaymentDeclinedError extends Error {
+	constructor(public readonly reason: string) {
+		super(`Payment declined: ${reason}`);
+		this.name = "PaymentDeclinedError";
+	}
+}
+
+/** Serialize an error through JSON, as when sending it to another process */
+const roundTrip = (error: Error, registry?: ErrorRegistry) =>
+	deserializeError(JSON.parse(JSON.stringify(serializeError(error))), registry);
+
+describe("serializeError", () => {
+	it("should serialize the class name, fields and stack", () => {
+		// Arrange
+		const error = new APIError("Not found", 404, "Users");
+
+		// Act
+		const serialized = serializeError(error);
+
+		// Assert
+		expect(serialized).toEqual({
+			$error: true,
+			name: "APIError",
+			message: "Not found",
+			stack: error.stack,
+			fields: {
+				code: "API_ERROR",
+				severity: "medium",
+				isOperational: true,
+				retryable: false,
+				details: {},
+				timestamp: { $date: error.timestamp.toISOString() },
+				statusCode: 404,
+				service: "Users",
+				retryAfterMs: undefined,
+			},
+		});
+		expect(isSerializedError(serialized)).toBe(true);
+	});
+
+	it("should serialize nested causes", () => {
+		// Arrange
+		const error = new DataFetchError(
+			"Fetch failed",
+			"API",
+			"getUser",
+			2,
+			new APIError("Unavailable", 503, "Users", new Error("ECONNRESET")),
+		);
+
+		// Act
+		const serialized = serializeError(error);
+
+		// Assert
+		expect(serialized.cause).toMatchObject({
+			name: "APIError",
+			fields: { statusCode: 503 },
+			cause: { name: "Error", message: "ECONNRESET" },
+		});
+	});
+
+	it("should drop circular references", () => {
+		// Arrange
+		const error = new Error("Outer");
+		const inner = new Error("Inner", { cause: error });
+		error.cause = inner;
+
+		// Act
+		const serialized = JSON.parse(JSON.stringify(serializeError(error)));
+
+		// Assert
+		expect(serialized.cause.message).toBe("Inner");
+		expect(serialized.cause.cause).toBeUndefined();
+	});
+});
+
+describe("deserializeError", () => {
+	it.each([
+		["APIError", new APIError("Not found", 404, "Users", undefined, 1000)],
+		["DatabaseError", new DatabaseError("Query failed", "Postgres", "select")],
+		["DataFetchError", new DataFetchError("Fetch failed", "API", "get", 3)],
+		["ConfigurationError", new ConfigurationError("Missing", "db.url")],
+	])("should restore a %s with its fields", (_name, error) => {
+		// Act
+		const restored = roundTrip(error);
+
+		// Assert
+		expect(restored).toBeInstanceOf(error.constructor);
+		expect(restored).toEqual(error);
+		expect(restored.message).toBe(error.message);
+		expect(restored.stack).toBe(error.stack);
+	});
+
+	it("should restore a DataValidationError with its validation errors", () => {
+		// Arrange
+		const error = new DataValidationError(
+			"Invalid user",
+			new ZodError([
+				{
+					code: "custom",
+					path: ["email"],
+					message: "Invalid email",
+					input: "",
+				},
+			]),
+		);
+
+		// Act
+		const restored = roundTrip(error) as DataValidationError;
+
+		// Assert
+		expect(restored).toBeInstanceOf(DataValidationError);
+		expect(restored.message).toBe(error.message);
+		expect(restored.originalMessage).toBe("Invalid user");
+		expect(restored.validationErrors).toEqual([
+			{ path: "email", message: "Invalid email" },
+		]);
+		expect(restored.cause).toMatchObject({ name: "ZodError" });
+	});
+
+	it("should restore the cause chain and aggregated errors", () => {
+		// Arrange
+		const error = new RetryExhaustedError([
+			{ attempt: 1, error: new APIError("Unavailable", 503), elapsedMs: 5 },
+			{ attempt: 2, error: new Error("Timeout"), elapsedMs: 15 },
+		]);
+
+		// Act
+		const restored = roundTrip(error) as RetryExhaustedError;
+
+		// Assert
+		expect(restored).toBeInstanceOf(RetryExhaustedError);
+		expect(restored.retryCount).toBe(1);
+		expect(restored.attempts[0]?.error).toBeInstanceOf(APIError);
+		const cause = restored.cause as AggregateError;
+		expect(cause).toBeInstanceOf(AggregateError);
+		expect(cause.errors).toEqual([expect.any(APIError), new Error("Timeout")]);
+		expect(cause.errors[0]).toMatchObject({
+			message: "Unavailable",
+			statusCode: 503,
+		});
+	});
+
+	it("should ignore fields replacing the prototype of the error", () => {
+		// Arrange
+		const serialized = JSON.parse(
+			JSON.stringify(serializeError(new APIError("Not found", 404))).replace(
+				'"fields":{',
+				'"fields":{"__proto__":{"polluted":true},"constructor":"Error",',
+			),
+		);
+
+		// Act
+		const restored = deserializeError(serialized);
+
+		// Assert
+		expect(Object.hasOwn(serialized.fields, "__proto__")).toBe(true);
+		expect(restored).toBeInstanceOf(APIError);
+		expect(restored).not.toHaveProperty("polluted");
+		expect(restored.constructor).toBe(APIError);
+		expect((restored as APIError).statusCode).toBe(404);
+	});
+
+	it("should restore unregistered classes as plain errors", () => {
+		// Act
+		const restored = roundTrip(new PaymentDeclinedError("insufficient funds"));
+
+		// Assert
+		expect(restored).not.toBeInstanceOf(PaymentDeclinedError);
+		expect(restored).toBeInstanceOf(Error);
+		expect(restored.name).toBe("PaymentDeclinedError");
+		expect(restored).toMatchObject({ reason: "insufficient funds" });
+	});
+
+	it("should restore classes of a custom registry", () => {
+		// Arrange
+		const registry = new ErrorRegistry().register(PaymentDeclinedError);
+
+		// Act
+		const restored = roundTrip(
+			new PaymentDeclinedError("insufficient funds"),
+			registry,
+		);
+
+		// Assert
+		expect(restored).toBeInstanceOf(PaymentDeclinedError);
+		expect((restored as PaymentDeclinedError).reason).toBe(
+			"insufficient funds",
+		);
+	});
+});
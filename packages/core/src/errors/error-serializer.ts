@@ -0,0 +1,270 @@
+/**
+ * @fileoverview Serialization of errors to plain JSON, and back, to send them across
+ * worker boundaries, queues or HTTP with their class, fields and causes.
+ */
+
+import { APIError } from "./api-error";
+import { AppError } from "./app-error";
+import { BulkheadRejectedError } from "./bulkhead-rejected-error";
+import { CircuitOpenError } from "./circuit-open-error";
+import { ConfigurationError } from "./configuration-error";
+import { DataFetchError } from "./data-fetch-error";
+import { DataValidationError } from "./data-validation-error";
+import { DatabaseError } from "./database-error";
+import { RateLimitExceededError } from "./rate-limit-exceeded-error";
+import { RetryDeadlineExceededError } from "./retry-deadline-exceeded-error";
+import { RetryExhaustedError } from "./retry-exhausted-error";
+import { TimeoutError } from "./timeout-error";
+
+/**
+ * Error serialized to plain JSON.
+ */
+export interface SerializedError {
+	/** Marks the value as a serialized error, including in the fields of another error */
+	$error: true;
+	/** Name of the error class, used to find it in the registry */
+	name: string;
+	message: string;
+	stack?: string | undefined;
+	/** Custom fields of the error (e.g. statusCode), errors and dates among them being serialized too */
+	fields: Record<string, unknown>;
+	/** Cause, serialized when it is an error */
+	cause?: unknown;
+	/** Errors of an AggregateError */
+	errors?: SerializedError[] | undefined;
+}
+
+type ErrorClass = abstract new (...args: never[]) => Error;
+
+/**
+ * Registry of the error classes restored by deserializeError, by name.
+ * Errors of unregistered classes are restored as plain Error instances, keeping their name and fields.
+ */
+export class ErrorRegistry {
+	private readonly classes = new Map<string, ErrorClass>();
+
+	/**
+	 * Register an error class.
+	 * @param errorClass Error class.
+	 * @param name Name the errors of the class are serialized with (default: the class name).
+	 */
+	register(errorClass: ErrorClass, name: string = errorClass.name): this {
+		this.classes.set(name, errorClass);
+		return this;
+	}
+
+	get(name: string): ErrorClass | undefined {
+		return this.classes.get(name);
+	}
+}
+
+/**
+ * Registry of the standard and core error classes, used by default by deserializeError.
+ * Register the error classes of the application to restore them too.
+ *
+ * @example
+ * ```typescript
+ * errorRegistry.register(PaymentDeclinedError);
+ * ```
+ */
+export const errorRegistry = new ErrorRegistry()
+	.register(Error)
+	.register(AggregateError)
+	.register(EvalError)
+	.register(RangeError)
+	.register(ReferenceError)
+	.register(SyntaxError)
+	.register(TypeError)
+	.register(URIError)
+	.register(AppError, "AppError")
+	.register(APIError, "APIError")
+	.register(BulkheadRejectedError, "BulkheadRejectedError")
+	.register(CircuitOpenError, "CircuitOpenError")
+	.register(ConfigurationError, "ConfigurationError")
+	.register(DataFetchError, "DataFetchError")
+	.register(DataValidationError, "DataValidationError")
+	.register(DatabaseError, "DatabaseError")
+	.register(RateLimitExceededError, "RateLimitExceededError")
+	.register(RetryDeadlineExceededError, "RetryDeadlineExceededError")
+	.register(RetryExhaustedError, "RetryExhaustedError")
+	.register(TimeoutError, "TimeoutError");
+
+/** Properties serialized apart from the custom fields */
+const RESERVED_KEYS = new Set(["name", "message", "stack", "cause", "errors"]);
+
+/** Fields of parsed JSON never restored, as they would replace the prototype of the error */
+const UNSAFE_FIELD_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Serialize an error to plain JSON, with its class name, custom fields, stack and nested causes.
+ * Circular references are dropped.
+ *
+ * @example
+ * ```typescript
+ * parentPort.postMessage({ error: serializeError(error) });
+ * ```
+ */
+export function serializeError(error: Error): SerializedError {
+	return serialize(error, new Set());
+}
+
+/**
+ * Restore an error serialized by serializeError, as an instance of its registered class.
+ * Constructors are not called: the message, stack, fields and causes are restored as they were.
+ *
+ * @example
+ * ```typescript
+ * worker.on("message", ({ error }) => {
+ *     const restored = deserializeError(error);
+ *     if (restored instanceof APIError && restored.statusCode === 404) { ... }
+ * });
+ * ```
+ */
+export function deserializeError(
+	serialized: SerializedError,
+	registry: ErrorRegistry = errorRegistry,
+): Error {
+	const errorClass = registry.get(serialized.name) ?? Error;
+	// A native error with the prototype of the class, without running its constructor
+	const error: Error = Reflect.construct(
+		Error,
+		[serialized.message],
+		errorClass,
+	);
+	if (error.name !== serialized.name) {
+		error.name = serialized.name;
+	}
+	if (serialized.stack !== undefined) {
+		Object.defineProperty(error, "stack", {
+			value: serialized.stack,
+			writable: true,
+			configurable: true,
+		});
+	}
+	for (const [key, value] of Object.entries(serialized.fields)) {
+		if (UNSAFE_FIELD_KEYS.has(key)) {
+			continue;
+		}
+		(error as unknown as Record<string, unknown>)[key] = fromJsonValue(
+			value,
+			registry,
+		);
+	}
+	if ("cause" in serialized) {
+		error.cause = fromJsonValue(serialized.cause, registry);
+	}
+	if (serialized.errors) {
+		Object.defineProperty(error, "errors", {
+			value: serialized.errors.map((item) => deserializeError(item, registry)),
+			writable: true,
+			configurable: true,
+		});
+	}
+	return error;
+}
+
+/**
+ * Check whether a value is an error serialized by serializeError.
+ */
+export function isSerializedError(value: unknown): value is SerializedError {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		"$error" in value &&
+		value.$error === true
+	);
+}
+
+/**
+ * Serialize an error, dropping the references to the errors and objects it is nested in.
+ */
+function serialize(error: Error, ancestors: Set<object>): SerializedError {
+	ancestors.add(error);
+	const fields: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(error)) {
+		if (!RESERVED_KEYS.has(key)) {
+			fields[key] = toJsonValue(value, ancestors);
+		}
+	}
+
+	const serialized: SerializedError = {
+		$error: true,
+		name: error.name,
+		message: error.message,
+		stack: error.stack,
+		fields,
+	};
+	if (error.cause !== undefined) {
+		serialized.cause = toJsonValue(error.cause, ancestors);
+	}
+	if (error instanceof AggregateError) {
+		serialized.errors = (error.errors as unknown[])
+			.filter(
+				(item): item is Error => item instanceof Error && !ancestors.has(item),
+			)
+			.map((item) => serialize(item, ancestors));
+	}
+	ancestors.delete(error);
+	return serialized;
+}
+
+function toJsonValue(value: unknown, ancestors: Set<object>): unknown {
+	if (typeof value !== "object" || value === null) {
+		return typeof value === "bigint" ? value.toString() : value;
+	}
+	if (ancestors.has(value)) {
+		return undefined;
+	}
+	if (value instanceof Error) {
+		return serialize(value, ancestors);
+	}
+	if (value instanceof Date) {
+		return { $date: value.toISOString() };
+	}
+	const isArray = Array.isArray(value);
+	if (!isArray && Object.getPrototypeOf(value) !== Object.prototype) {
+		// Class instances: left to their JSON representation
+		return value;
+	}
+	ancestors.add(value);
+	const json = isArray
+		? value.map((item) => toJsonValue(item, ancestors))
+		: Object.fromEntries(
+				Object.entries(value).map(([key, item]) => [
+					key,
+					toJsonValue(item, ancestors),
+				]),
+			);
+	ancestors.delete(value);
+	return json;
+}
+
+function fromJsonValue(value: unknown, registry: ErrorRegistry): unknown {
+	if (isSerializedError(value)) {
+		return deserializeError(value, registry);
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => fromJsonValue(item, registry));
+	}
+	if (isSerializedDate(value)) {
+		return new Date(value.$date);
+	}
+	if (typeof value === "object" && value !== null) {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [
+				key,
+				fromJsonValue(item, registry),
+			]),
+		);
+	}
+	return value;
+}
+
+function isSerializedDate(value: unknown): value is { $date: string } {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		"$date" in value &&
+		typeof value.$date === "string"
+	);
+}
@@ -2,10 +2,18 @@ import { describe, expect, it } from "bun:test";
 import type z from "zod";
 import { ZodError } from "zod";
 import { APIError } from "./api-error";
+import { AppError, getHttpStatus } from "./app-error";
+import { BulkheadRejectedError } from "./bulkhead-rejected-error";
+import { CircuitOpenError } from "./circuit-open-error";
 import { ConfigurationError } from "./configuration-error";
 import { DataFetchError } from "./data-fetch-error";
 import { DataValidationError } from "./data-validation-error";
 import { DatabaseError } from "./database-error";
+import { ErrorCode } from "./error-codes";
+import { RateLimitExceededError } from "./rate-limit-exceeded-error";
+import { RetryDeadlineExceededError } from "./retry-deadline-exceeded-error";
+import { RetryExhaustedError } from "./retry-exhausted-error";
+import { TimeoutError } from "./timeout-error";
 
 // Helper to create mock ZodError
 function createMockZodError(
@@ -24,6 +32,102 @@ function createMockZodError(
 }
 
 describe("Error Classes", () => {
+	describe("AppError", () => {
+		it("should create AppError with default options", () => {
+			const error = new AppError("Something went wrong");
+
+			expect(error).toBeInstanceOf(Error);
+			expect(error.name).toBe("AppError");
+			expect(error.code).toBe(ErrorCode.INTERNAL);
+			expect(error.severity).toBe("medium");
+			expect(error.isOperational).toBe(true);
+			expect(error.retryable).toBe(false);
+			expect(error.details).toEqual({});
+			expect(error.timestamp).toBeInstanceOf(Date);
+			expect(error.cause).toBeUndefined();
+		});
+
+		it("should create AppError with options", () => {
+			const cause = new Error("Conflict");
+			const error = new AppError("Order already shipped", {
+				code: "ORDER_ALREADY_SHIPPED",
+				severity: "low",
+				isOperational: false,
+				retryable: true,
+				details: { orderId: 42 },
+				cause,
+			});
+
+			expect(error.code).toBe("ORDER_ALREADY_SHIPPED");
+			expect(error.severity).toBe("low");
+			expect(error.isOperational).toBe(false);
+			expect(error.retryable).toBe(true);
+			expect(error.details).toEqual({ orderId: 42 });
+			expect(error.cause).toBe(cause);
+		});
+
+		it("should give every core error a code", () => {
+			expect(new APIError("Down", 503)).toMatchObject({
+				code: ErrorCode.API,
+				retryable: true,
+			});
+			expect(new APIError("Not found", 404).retryable).toBe(false);
+			expect(new DatabaseError("Query failed")).toMatchObject({
+				code: ErrorCode.DATABASE,
+				severity: "high",
+			});
+			expect(new DataFetchError("Fetch failed").code).toBe(
+				ErrorCode.DATA_FETCH,
+			);
+			expect(new DataValidationError("Invalid")).toMatchObject({
+				code: ErrorCode.VALIDATION,
+				retryable: false,
+			});
+			expect(new ConfigurationError("Missing")).toMatchObject({
+				code: ErrorCode.CONFIGURATION,
+				severity: "critical",
+				isOperational: false,
+			});
+			expect(new TimeoutError(500).code).toBe(ErrorCode.TIMEOUT);
+			expect(new CircuitOpenError("getData", 0).code).toBe(
+				ErrorCode.CIRCUIT_OPEN,
+			);
+			expect(new BulkheadRejectedError("getData", "queue_full").code).toBe(
+				ErrorCode.BULKHEAD_REJECTED,
+			);
+			expect(new RateLimitExceededError("openai", 0).code).toBe(
+				ErrorCode.RATE_LIMIT_EXCEEDED,
+			);
+			expect(new RetryDeadlineExceededError(1000, []).code).toBe(
+				ErrorCode.RETRY_DEADLINE_EXCEEDED,
+			);
+			expect(new RetryExhaustedError([])).toMatchObject({
+				code: ErrorCode.RETRY_EXHAUSTED,
+				severity: "high",
+			});
+		});
+
+		it("should map error codes to HTTP status codes", () => {
+			expect(getHttpStatus(new DataValidationError("Invalid"))).toBe(400);
+			expect(getHttpStatus(new RateLimitExceededError("openai", 0))).toBe(429);
+			expect(getHttpStatus(new CircuitOpenError("getData", 0))).toBe(503);
+			expect(getHttpStatus(new TimeoutError(500))).toBe(504);
+			expect(getHttpStatus(new AppError("Custom", { code: "CUSTOM" }))).toBe(
+				500,
+			);
+			expect(getHttpStatus(new Error("Bug"))).toBe(500);
+		});
+
+		it("should not map codes inherited by the status map", () => {
+			expect(getHttpStatus(new AppError("Custom", { code: "toString" }))).toBe(
+				500,
+			);
+			expect(getHttpStatus(new AppError("Custom", { code: "__proto__" }))).toBe(
+				500,
+			);
+		});
+	});
+
 	describe("APIError", () => {
 		it("should create APIError with all properties", () => {
 			const originalError = new Error("Original error");
@@ -41,6 +145,18 @@ describe("Error Classes", () => {
 			expect(apiError.cause).toBe(originalError);
 		});
 
+		it("should create APIError with a Retry-After hint", () => {
+			const apiError = new APIError(
+				"Too many requests",
+				429,
+				"TestService",
+				undefined,
+				3000,
+			);
+
+			expect(apiError.retryAfterMs).toBe(3000);
+		});
+
 		it("should create APIError with minimal properties", () => {
 			const apiError = new APIError("API failed");
 
@@ -52,6 +168,35 @@ describe("Error Classes", () => {
 		});
 	});
 
+	describe("BulkheadRejectedError", () => {
+		it("should create BulkheadRejectedError for a full queue", () => {
+			const error = new BulkheadRejectedError("getData", "queue_full");
+
+			expect(error.name).toBe("BulkheadRejectedError");
+			expect(error.message).toBe("Bulkhead is full for getData");
+			expect(error.operationName).toBe("getData");
+			expect(error.reason).toBe("queue_full");
+		});
+
+		it("should create BulkheadRejectedError for a queue timeout", () => {
+			const error = new BulkheadRejectedError("getData", "queue_timeout");
+
+			expect(error.message).toBe("Bulkhead queue timeout exceeded for getData");
+		});
+	});
+
+	describe("CircuitOpenError", () => {
+		it("should create CircuitOpenError with the time until the next attempt", () => {
+			const error = new CircuitOpenError("getData", 1500);
+
+			expect(error).toBeInstanceOf(Error);
+			expect(error.name).toBe("CircuitOpenError");
+			expect(error.message).toBe("Circuit breaker is open for getData");
+			expect(error.operationName).toBe("getData");
+			expect(error.retryAfterMs).toBe(1500);
+		});
+	});
+
 	describe("ConfigurationError", () => {
 		it("should create ConfigurationError with config key", () => {
 			const configError = new ConfigurationError("Config missing", "api.key");
@@ -155,6 +300,91 @@ describe("Error Classes", () => {
 			expect(dbError.source).toBe("ER_BAD_FIELD_ERROR");
 			expect(dbError.operation).toBe("SELECT * FROM users");
 			expect(dbError.cause).toBe(originalError);
+			expect(dbError.sqlState).toBeUndefined();
+		});
+
+		it("should read the SQLSTATE of the original error", () => {
+			const originalError = Object.assign(new Error("deadlock detected"), {
+				code: "40P01",
+			});
+			const dbError = new DatabaseError(
+				"DB failed",
+				"pg",
+				"UPDATE",
+				originalError,
+			);
+
+			expect(dbError.sqlState).toBe("40P01");
+			expect(dbError.retryable).toBe(true);
+		});
+	});
+
+	describe("RateLimitExceededError", () => {
+		it("should create RateLimitExceededError with the time until the permits are available", () => {
+			const error = new RateLimitExceededError("openai", 1500);
+
+			expect(error.name).toBe("RateLimitExceededError");
+			expect(error.message).toBe("Rate limit exceeded for openai");
+			expect(error.key).toBe("openai");
+			expect(error.retryAfterMs).toBe(1500);
+		});
+	});
+
+	describe("RetryDeadlineExceededError", () => {
+		it("should report every attempt and the last error as cause", () => {
+			const attempts = [
+				{ attempt: 1, error: new Error("first"), elapsedMs: 10 },
+				{ attempt: 2, error: new Error("second"), elapsedMs: 120 },
+			];
+			const error = new RetryDeadlineExceededError(200, attempts);
+
+			expect(error.name).toBe("RetryDeadlineExceededError");
+			expect(error.message).toBe(
+				"Retry deadline of 200ms exceeded after 2 attempt(s): second",
+			);
+			expect(error.deadlineMs).toBe(200);
+			expect(error.attempts).toEqual(attempts);
+			expect(error.cause).toBe(attempts[1]?.error);
+		});
+	});
+
+	describe("RetryExhaustedError", () => {
+		it("should be a DataFetchError holding every attempt error", () => {
+			const attempts = [
+				{ attempt: 1, error: new Error("first"), elapsedMs: 0 },
+				{ attempt: 2, error: new Error("second"), elapsedMs: 15 },
+			];
+			const error = new RetryExhaustedError(attempts, "API", "getData");
+
+			expect(error).toBeInstanceOf(DataFetchError);
+			expect(error.name).toBe("RetryExhaustedError");
+			expect(error.message).toBe("Operation failed after 2 attempt(s): second");
+			expect(error.source).toBe("API");
+			expect(error.operation).toBe("getData");
+			expect(error.retryCount).toBe(1);
+			expect(error.attempts).toEqual(attempts);
+			expect((error.cause as AggregateError).errors).toEqual([
+				attempts[0]?.error,
+				attempts[1]?.error,
+			]);
+		});
+	});
+
+	describe("TimeoutError", () => {
+		it("should create TimeoutError with operation name", () => {
+			const error = new TimeoutError(500, "getData");
+
+			expect(error.name).toBe("TimeoutError");
+			expect(error.message).toBe("Operation getData timed out after 500ms");
+			expect(error.timeoutMs).toBe(500);
+			expect(error.operationName).toBe("getData");
+		});
+
+		it("should create TimeoutError without operation name", () => {
+			const error = new TimeoutError(500);
+
+			expect(error.message).toBe("Operation timed out after 500ms");
+			expect(error.operationName).toBeUndefined();
 		});
 	});
 });
@@ -1,7 +1,25 @@
 export { APIError } from "./api-error";
+export * from "./app-error";
+export * from "./error-codes";
+export { BulkheadRejectedError } from "./bulkhead-rejected-error";
+export { CircuitOpenError } from "./circuit-open-error";
 export * from "./error-handler";
+export * from "./backoff-strategies";
+export * from "./error-classifier";
+export * from "./with-timeout";
+export * from "./resilience-policy";
+export * from "./bulkhead";
+export * from "./circuit-breaker-registry";
+export * from "./circuit-state-store";
+export * from "./postgres-circuit-state-store";
+export * from "./error-serializer";
+export * from "./problem-details";
 export { DataValidationError } from "./data-validation-error";
 export { ConfigurationError } from "./configuration-error";
 export { DatabaseError } from "./database-error";
 export { DataFetchError } from "./data-fetch-error";
+export { RateLimitExceededError } from "./rate-limit-exceeded-error";
+export { RetryDeadlineExceededError } from "./retry-deadline-exceeded-error";
+export { RetryExhaustedError } from "./retry-exhausted-error";
+export { TimeoutError } from "./timeout-error";
 export * from "./types";
@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Unit tests for PostgresCircuitStateStore.
+ */
+
+import { describe, expect, it, jest } from "bun:test";
+import { PostgresCircuitStateStore } from "./postgres-circuit-state-store";
+
+const createPool = (rows: unknown[] = []) => ({
+	query: jest.fn().mockResolvedValue({ rows }),
+});
+
+const row = {
+	state: "OPEN",
+	failures: 3,
+	opened_at: "1700000000000",
+	forced_open: false,
+	version: "7",
+};
+
+describe("PostgresCircuitStateStore", () => {
+	it("should create the table of the states", async () => {
+		// Arrange
+		const pool = createPool();
+		const store = new PostgresCircuitStateStore(pool as never, {
+			tableName: "resilience.circuits",
+		});
+
+		// Act
+		await store.ensureTable();
+
+		// Assert
+		expect(pool.query.mock.calls[0]?.[0]).toContain(
+			'CREATE TABLE IF NOT EXISTS "resilience"."circuits"',
+		);
+	});
+
+	it("should refuse an invalid table name", () => {
+		expect(
+			() =>
+				new PostgresCircuitStateStore(createPool() as never, {
+					tableName: "states; DROP TABLE users",
+				}),
+		).toThrow("Invalid circuit state table name: states; DROP TABLE users");
+	});
+
+	it("should read a state", async () => {
+		// Arrange
+		const pool = createPool([row]);
+		const store = new PostgresCircuitStateStore(pool as never);
+
+		// Act
+		const stored = await store.get("payments");
+
+		// Assert
+		expect(stored).toEqual({
+			state: "OPEN",
+			failures: 3,
+			openedAt: 1700000000000,
+			forcedOpen: false,
+			version: 7,
+		});
+		expect(pool.query.mock.calls[0]?.[1]).toEqual(["payments"]);
+	});
+
+	it("should return undefined for an unknown key", async () => {
+		const store = new PostgresCircuitStateStore(createPool() as never);
+
+		expect(await store.get("payments")).toBeUndefined();
+	});
+
+	it("should insert the first state of a circuit", async () => {
+		// Arrange
+		const pool = createPool([{ ...row, version: "1" }]);
+		const store = new PostgresCircuitStateStore(pool as never);
+
+		// Act
+		const stored = await store.set(
+			"payments",
+			{
+				state: "OPEN",
+				failures: 3,
+				openedAt: 1700000000000,
+				forcedOpen: false,
+			},
+			0,
+		);
+
+		// Assert
+		expect(stored).toMatchObject({ state: "OPEN", version: 1 });
+		const [query, params] = pool.query.mock.calls[0] ?? [];
+		expect(query).toContain('INSERT INTO "circuit_breaker_states"');
+		expect(query).toContain("ON CONFLICT (key) DO NOTHING");
+		expect(params).toEqual(["payments", "OPEN", 3, 1700000000000, false]);
+	});
+
+	it("should update a state of the expected version", async () => {
+		// Arrange
+		const pool = createPool([{ ...row, state: "CLOSED", opened_at: null }]);
+		const store = new PostgresCircuitStateStore(pool as never);
+
+		// Act
+		const stored = await store.set(
+			"payments",
+			{ state: "CLOSED", failures: 3, forcedOpen: false },
+			6,
+		);
+
+		// Assert
+		expect(stored).toMatchObject({ state: "CLOSED", version: 7 });
+		expect(stored?.openedAt).toBeUndefined();
+		const [query, params] = pool.query.mock.calls[0] ?? [];
+		expect(query).toContain('UPDATE "circuit_breaker_states"');
+		expect(query).toContain("WHERE key = $1 AND version = $6");
+		expect(params).toEqual(["payments", "CLOSED", 3, null, false, 6]);
+	});
+
+	it("should return undefined when the version changed", async () => {
+		const store = new PostgresCircuitStateStore(createPool() as never);
+
+		expect(
+			await store.set(
+				"payments",
+				{ state: "CLOSED", failures: 0, forcedOpen: false },
+				6,
+			),
+		).toBeUndefined();
+	});
+});
@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Postgres store of circuit breaker states, shared between processes.
+ */
+
+import type { Pool } from "pg";
+import type {
+	CircuitState,
+	CircuitStateSnapshot,
+	ICircuitStateStore,
+	StoredCircuitState,
+} from "./types";
+
+export interface PostgresCircuitStateStoreOptions {
+	/** Table of the states, optionally schema-qualified (default: "circuit_breaker_states") */
+	tableName?: string;
+}
+
+interface CircuitStateRow {
+	state: CircuitState;
+	failures: number;
+	opened_at: string | null;
+	forced_open: boolean;
+	version: string;
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/;
+
+/**
+ * Circuit state store saving the states in a Postgres table, so that the workers of a cluster
+ * share what each of them learns about a dependency.
+ *
+ * @example
+ * ```typescript
+ * const stateStore = new PostgresCircuitStateStore(pool);
+ * await stateStore.ensureTable();
+ * const circuitBreakers = new CircuitBreakerRegistry({
+ *     defaults: { options: { stateStore } },
+ * });
+ * ```
+ */
+export class PostgresCircuitStateStore implements ICircuitStateStore {
+	private readonly tableName: string;
+
+	/**
+	 * @param pool Pool of the connections to the database.
+	 * @param options Table of the states.
+	 */
+	constructor(
+		private readonly pool: Pick<Pool, "query">,
+		options: PostgresCircuitStateStoreOptions = {},
+	) {
+		const tableName = options.tableName ?? "circuit_breaker_states";
+		if (!IDENTIFIER.test(tableName)) {
+			throw new Error(`Invalid circuit state table name: ${tableName}`);
+		}
+		this.tableName = tableName
+			.split(".")
+			.map((part) => `"${part}"`)
+			.join(".");
+	}
+
+	/**
+	 * Create the table of the states if it does not exist.
+	 */
+	async ensureTable(): Promise<void> {
+		await this.pool.query(`
+			CREATE TABLE IF NOT EXISTS ${this.tableName} (
+				key TEXT PRIMARY KEY,
+				state TEXT NOT NULL,
+				failures INTEGER NOT NULL,
+				opened_at BIGINT,
+				forced_open BOOLEAN NOT NULL DEFAULT FALSE,
+				version BIGINT NOT NULL,
+				updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+			)
+		`);
+	}
+
+	async get(key: string): Promise<StoredCircuitState | undefined> {
+		const { rows } = await this.pool.query<CircuitStateRow>(
+			`SELECT state, failures, opened_at, forced_open, version FROM ${this.tableName} WHERE key = $1`,
+			[key],
+		);
+		const row = rows[0];
+		return row && this.toStoredState(row);
+	}
+
+	async set(
+		key: string,
+		snapshot: CircuitStateSnapshot,
+		expectedVersion: number,
+	): Promise<StoredCircuitState | undefined> {
+		const params = [
+			key,
+			snapshot.state,
+			snapshot.failures,
+			snapshot.openedAt ?? null,
+			snapshot.forcedOpen,
+		];
+		const { rows } =
+			expectedVersion === 0
+				? await this.pool.query<CircuitStateRow>(
+						`INSERT INTO ${this.tableName} (key, state, failures, opened_at, forced_open, version)
+						VALUES ($1, $2, $3, $4, $5, 1)
+						ON CONFLICT (key) DO NOTHING
+						RETURNING state, failures, opened_at, forced_open, version`,
+						params,
+					)
+				: await this.pool.query<CircuitStateRow>(
+						`UPDATE ${this.tableName} SET
+							state = $2,
+							failures = $3,
+							opened_at = $4,
+							forced_open = $5,
+							version = version + 1,
+							updated_at = NOW()
+						WHERE key = $1 AND version = $6
+						RETURNING state, failures, opened_at, forced_open, version`,
+						[...params, expectedVersion],
+					);
+		const row = rows[0];
+		return row && this.toStoredState(row);
+	}
+
+	private toStoredState(row: CircuitStateRow): StoredCircuitState {
+		return {
+			state: row.state,
+			failures: row.failures,
+			openedAt: row.opened_at === null ? undefined : Number(row.opened_at),
+			forcedOpen: row.forced_open,
+			// BIGINT columns are returned as strings
+			version: Number(row.version),
+		};
+	}
+}
@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Unit tests for the conversion of errors to problem details.
+ */
+
+import { describe, expect, it } from "bun:test";
+import { ZodError } from "zod";
+import { SensitiveDataMasker } from "../logger/sensitive-data-masker";
+import { APIError } from "./api-error";
+import { AppError } from "./app-error";
+import { DataValidationError } from "./data-validation-error";
+import { DatabaseError } from "./database-error";
+import { toProblemDetails } from "./problem-details";
+import { RateLimitExceededError } from "./rate-limit-exceeded-error";
+
+const createValidationError = () =>
+	new DataValidationError(
+		"Invalid user",
+		new ZodError([
+			{
+				code: "custom",
+				path: ["contact", "email"],
+				message: "Invalid email jane@example.com",
+				input: "jane@example.com",
+			},
+		]),
+	);
+
+describe("toProblemDetails", () => {
+	it("should convert an APIError", () => {
+		// Arrange
+		const error = new APIError("Search is down", 503, "Search");
+
+		// Act
+		const problem = toProblemDetails(error, {
+			production: false,
+			typeBaseUrl: "https://errors.example.com/",
+			instance: "/products?q=shoes",
+		});
+
+		// Assert
+		expect(problem).toMatchObject({
+			type: "https://errors.example.com/api-error",
+			title: "Bad Gateway",
+			status: 502,
+			detail: "Search is down",
+			instance: "/products?q=shoes",
+			code: "API_ERROR",
+			timestamp: error.timestamp.toISOString(),
+		});
+		expect(problem.debug).toMatchObject({
+			name: "APIError",
+			fields: { statusCode: 503, service: "Search" },
+		});
+	});
+
+	it("should list the invalid fields of a DataValidationError", () => {
+		// Act
+		const problem = toProblemDetails(createValidationError(), {
+			production: false,
+		});
+
+		// Assert
+		expect(problem).toMatchObject({
+			type: "about:blank",
+			title: "Bad Request",
+			status: 400,
+			detail: "Invalid user",
+			code: "VALIDATION_ERROR",
+			errors: [
+				{ path: "contact.email", message: "Invalid email jane@example.com" },
+			],
+		});
+	});
+
+	it("should tell when to retry", () => {
+		const problem = toProblemDetails(new RateLimitExceededError("api", 1500));
+
+		expect(problem.status).toBe(429);
+		expect(problem.retryAfter).toBe(2);
+	});
+
+	it("should include the details of an AppError", () => {
+		const problem = toProblemDetails(
+			new AppError("Order already shipped", {
+				code: "ORDER_ALREADY_SHIPPED",
+				details: { orderId: 42 },
+			}),
+		);
+
+		expect(problem.status).toBe(500);
+		expect(problem.details).toEqual({ orderId: 42 });
+	});
+
+	it("should convert errors that are not AppErrors", () => {
+		const problem = toProblemDetails(new TypeError("x is undefined"), {
+			production: false,
+		});
+
+		expect(problem).toMatchObject({
+			status: 500,
+			title: "Internal Server Error",
+			code: "INTERNAL_ERROR",
+			detail: "x is undefined",
+		});
+	});
+
+	describe("production mode", () => {
+		it("should strip the internals of a DatabaseError", () => {
+			// Arrange
+			const error = new DatabaseError(
+				"relation users does not exist",
+				"pg",
+				"SELECT * FROM users",
+				new Error("42P01"),
+			);
+
+			// Act
+			const problem = toProblemDetails(error, { production: true });
+
+			// Assert
+			expect(problem).toEqual({
+				type: "about:blank",
+				title: "Internal Server Error",
+				status: 500,
+				code: "DATABASE_ERROR",
+				timestamp: error.timestamp.toISOString(),
+			});
+		});
+
+		it("should mask the sensitive values of client errors", () => {
+			// Act
+			const problem = toProblemDetails(createValidationError(), {
+				production: true,
+				masker: new SensitiveDataMasker({ maskString: "[hidden]" }),
+			});
+
+			// Assert
+			expect(problem.errors).toEqual([
+				{ path: "contact.email", message: "Invalid email [hidden]" },
+			]);
+			expect(problem.debug).toBeUndefined();
+		});
+
+		it("should mask the sensitive fields of the details", () => {
+			const problem = toProblemDetails(
+				new AppError("Login failed", {
+					code: "LOGIN_FAILED",
+					details: { username: "jane", attempts: 3 },
+				}),
+				{ production: true },
+			);
+
+			expect(problem.details).toEqual({
+				username: "***MASKED***",
+				attempts: 3,
+			});
+		});
+	});
+});
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Conversion of errors to RFC 7807 problem details, to answer them over HTTP.
+ */
+
+import { STATUS_CODES } from "node:http";
+import { SensitiveDataMasker } from "../logger/sensitive-data-masker";
+import { APIError } from "./api-error";
+import { AppError, getHttpStatus } from "./app-error";
+import { CircuitOpenError } from "./circuit-open-error";
+import { DataValidationError } from "./data-validation-error";
+import { ErrorCode } from "./error-codes";
+import { type SerializedError, serializeError } from "./error-serializer";
+import { RateLimitExceededError } from "./rate-limit-exceeded-error";
+
+/**
+ * Media type of problem details.
+ */
+export const PROBLEM_JSON_CONTENT_TYPE = "application/problem+json";
+
+/**
+ * RFC 7807 problem details, with the extensions of the core errors.
+ */
+export interface ProblemDetails {
+	/** URI of the problem type ("about:blank" without a type base URL) */
+	type: string;
+	/** Short summary of the problem type, the reason phrase of the status code */
+	title: string;
+	/** HTTP status code */
+	status: number;
+	/** Explanation of this occurrence of the problem */
+	detail?: string;
+	/** URI of this occurrence of the problem */
+	instance?: string;
+	/** Code of the error */
+	code: string;
+	/** Time of the error, as an ISO 8601 string */
+	timestamp: string;
+	/** Invalid fields of a DataValidationError */
+	errors?: Array<{ path: string; message: string }>;
+	/** Seconds before the request is worth sending again */
+	retryAfter?: number;
+	/** Details of an AppError */
+	details?: Record<string, unknown>;
+	/** Class, fields, stack and causes of the error (not in production mode) */
+	debug?: SerializedError;
+}
+
+export interface ProblemDetailsOptions {
+	/**
+	 * Whether to strip the internal details of the errors (default: NODE_ENV is "production").
+	 * In production mode, causes, stacks and the fields of the errors are left out,
+	 * the detail of server errors (5xx) is omitted, and the values that remain are masked.
+	 */
+	production?: boolean;
+	/** Base URL of the problem types, followed by the kebab-case error code (default: none) */
+	typeBaseUrl?: string;
+	/** URI of this occurrence of the problem (e.g. the request path) */
+	instance?: string;
+	/** Masker of the sensitive values in production mode (default: a SensitiveDataMasker with the default config) */
+	masker?: SensitiveDataMasker;
+}
+
+/**
+ * Convert an error to RFC 7807 problem details.
+ * The status code comes from the code of the error, see `errorCodeHttpStatus`.
+ *
+ * @example
+ * ```typescript
+ * app.use((error, req, res, next) => {
+ *     const problem = toProblemDetails(error, { instance: req.originalUrl });
+ *     res.status(problem.status).type(PROBLEM_JSON_CONTENT_TYPE).json(problem);
+ * });
+ * ```
+ */
+export function toProblemDetails(
+	error: unknown,
+	options: ProblemDetailsOptions = {},
+): ProblemDetails {
+	const production =
+		options.production ?? process.env["NODE_ENV"] === "production";
+	const masker = options.masker ?? new SensitiveDataMasker();
+	const mask = <T>(value: T): T =>
+		production
+			? ((typeof value === "string"
+					? masker.maskMessage(value)
+					: masker.maskMetadata(value)) as T)
+			: value;
+
+	const status = getHttpStatus(error);
+	const code = error instanceof AppError ? error.code : ErrorCode.INTERNAL;
+	const problem: ProblemDetails = {
+		type: options.typeBaseUrl
+			? `${options.typeBaseUrl.replace(/\/$/, "")}/${code.toLowerCase().replace(/_/g, "-")}`
+			: "about:blank",
+		title: STATUS_CODES[status] ?? "Error",
+		status,
+		code,
+		timestamp: (error instanceof AppError
+			? error.timestamp
+			: new Date()
+		).toISOString(),
+	};
+	if (options.instance !== undefined) {
+		problem.instance = options.instance;
+	}
+
+	const detail = getDetail(error);
+	if (detail !== undefined && (!production || status < 500)) {
+		problem.detail = mask(detail);
+	}
+	if (error instanceof DataValidationError && error.validationErrors) {
+		problem.errors = mask(error.validationErrors);
+	}
+	const retryAfterMs = getRetryAfterMs(error);
+	if (retryAfterMs !== undefined) {
+		problem.retryAfter = Math.ceil(retryAfterMs / 1000);
+	}
+	if (error instanceof AppError && Object.keys(error.details).length > 0) {
+		problem.details = mask(error.details);
+	}
+	if (!production && error instanceof Error) {
+		problem.debug = serializeError(error);
+	}
+	return problem;
+}
+
+function getDetail(error: unknown): string | undefined {
+	if (error instanceof DataValidationError) {
+		return error.originalMessage;
+	}
+	if (error instanceof Error) {
+		return error.message;
+	}
+	return error === undefined ? undefined : String(error);
+}
+
+function getRetryAfterMs(error: unknown): number | undefined {
+	if (
+		error instanceof APIError ||
+		error instanceof RateLimitExceededError ||
+		error instanceof CircuitOpenError
+	) {
+		return error.retryAfterMs;
+	}
+	return undefined;
+}
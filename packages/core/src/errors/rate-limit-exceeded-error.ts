@@ -0,0 +1,20 @@
+import { AppError } from "./app-error";
+import { ErrorCode } from "./error-codes";
+
+/**
+ * RateLimitExceededError class to represent a call rejected by a rate limiter.
+ */
+export class RateLimitExceededError extends AppError {
+	constructor(
+		public readonly key: string,
+		/** Time until the permits are available */
+		public readonly retryAfterMs: number,
+	) {
+		super(`Rate limit exceeded for ${key}`, {
+			code: ErrorCode.RATE_LIMIT_EXCEEDED,
+			severity: "low",
+			retryable: true,
+		});
+		this.name = "RateLimitExceededError";
+	}
+}
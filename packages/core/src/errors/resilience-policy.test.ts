@@ -0,0 +1,249 @@
+/**
+ * @fileoverview Unit tests for ResiliencePolicy.
+ */
+
+import { describe, expect, it, jest } from "bun:test";
+import { APIError } from "./api-error";
+import { Bulkhead } from "./bulkhead";
+import { BulkheadRejectedError } from "./bulkhead-rejected-error";
+import { CircuitBreaker, RetryHandler, TimeoutHandler } from "./error-handler";
+import { type IRateLimiter, RateLimiter } from "../utils/rate-limiter";
+import { RateLimitExceededError } from "./rate-limit-exceeded-error";
+import { ResiliencePolicy } from "./resilience-policy";
+import type { RetryExhaustedError } from "./retry-exhausted-error";
+import { TimeoutError } from "./timeout-error";
+import type { ExecutionContext } from "./types";
+
+describe("ResiliencePolicy", () => {
+	it("should run the operation without any policy", async () => {
+		// Arrange
+		const execute = ResiliencePolicy.wrap({ operationName: "getUser" });
+		const operation = jest.fn().mockResolvedValue("user");
+
+		// Act
+		const result = await execute(operation);
+
+		// Assert
+		expect(result).toBe("user");
+		expect(operation).toHaveBeenCalledWith({
+			operationName: "getUser",
+			attempt: 1,
+			signal: undefined,
+		});
+	});
+
+	it("should share the attempt number and signal with the operation", async () => {
+		// Arrange
+		const contexts: ExecutionContext[] = [];
+		const execute = ResiliencePolicy.wrap({
+			operationName: "getUser",
+			timeout: new TimeoutHandler(1000),
+			retry: new RetryHandler(3, 1),
+		});
+
+		// Act
+		const result = await execute(async (context) => {
+			contexts.push(context);
+			if (context.attempt < 3) {
+				throw new Error("Temporary failure");
+			}
+			return "user";
+		});
+
+		// Assert
+		expect(result).toBe("user");
+		expect(contexts.map((context) => context.attempt)).toEqual([1, 2, 3]);
+		for (const context of contexts) {
+			expect(context.operationName).toBe("getUser");
+			expect(context.signal).toBeInstanceOf(AbortSignal);
+		}
+	});
+
+	it("should share the execution context with every policy of the chain", async () => {
+		// Arrange
+		const rateLimiterContexts: Array<ExecutionContext | undefined> = [];
+		const rateLimiter: IRateLimiter = {
+			acquire: async () => {},
+			tryAcquire: () => true,
+			execute: (operation, _operationName, signal, context) => {
+				rateLimiterContexts.push(context);
+				return operation(signal);
+			},
+		};
+		const circuitBreaker = new CircuitBreaker(5, 1000);
+		const onCall = jest.fn();
+		circuitBreaker.on("failure", onCall);
+		circuitBreaker.on("success", onCall);
+		const execute = ResiliencePolicy.wrap({
+			operationName: "getUser",
+			retry: new RetryHandler(2, 1),
+			rateLimiter,
+			circuitBreaker,
+		});
+		const controller = new AbortController();
+		const operation = jest
+			.fn()
+			.mockRejectedValueOnce(new Error("Temporary failure"))
+			.mockResolvedValue("user");
+
+		// Act
+		await execute(operation, controller.signal);
+
+		// Assert
+		expect(rateLimiterContexts).toEqual([
+			{ operationName: "getUser", attempt: 1, signal: controller.signal },
+			{ operationName: "getUser", attempt: 2, signal: controller.signal },
+		]);
+		expect(onCall.mock.calls.map(([call]) => call.attempt)).toEqual([1, 2]);
+	});
+
+	it("should count every attempt in the circuit breaker", async () => {
+		// Arrange
+		const circuitBreaker = new CircuitBreaker(5, 1000);
+		const execute = ResiliencePolicy.wrap({
+			retry: new RetryHandler(3, 1),
+			circuitBreaker,
+		});
+		const operation = jest.fn().mockRejectedValue(new Error("Down"));
+
+		// Act & Assert
+		await expect(execute(operation)).rejects.toThrow("Down");
+		expect(operation).toHaveBeenCalledTimes(3);
+		expect(circuitBreaker.getFailureCount()).toBe(3);
+	});
+
+	it("should time out each attempt", async () => {
+		// Arrange
+		const circuitBreaker = new CircuitBreaker(5, 1000);
+		const execute = ResiliencePolicy.wrap({
+			timeout: new TimeoutHandler(10),
+			retry: new RetryHandler(2, 1, { operationName: "getUser" }),
+			circuitBreaker,
+		});
+
+		// Act
+		const error = (await execute(() => new Promise(() => {})).catch(
+			(e) => e,
+		)) as RetryExhaustedError;
+
+		// Assert
+		expect((error.cause as AggregateError).errors).toEqual([
+			expect.any(TimeoutError),
+			expect.any(TimeoutError),
+		]);
+		expect(circuitBreaker.getFailureCount()).toBe(2);
+	});
+
+	it("should not count bulkhead rejections as circuit breaker failures", async () => {
+		// Arrange
+		const circuitBreaker = new CircuitBreaker(1, 1000);
+		const execute = ResiliencePolicy.wrap({
+			bulkhead: new Bulkhead(1),
+			circuitBreaker,
+		});
+		let release: (value: string) => void = () => {};
+		const running = execute(
+			() =>
+				new Promise<string>((resolve) => {
+					release = resolve;
+				}),
+		);
+
+		// Act
+		const rejected = execute(() => Promise.resolve("second"));
+
+		// Assert
+		await expect(rejected).rejects.toBeInstanceOf(BulkheadRejectedError);
+		expect(circuitBreaker.getState()).toBe("CLOSED");
+		release("first");
+		expect(await running).toBe("first");
+	});
+
+	it("should acquire a rate limiter permit for each attempt", async () => {
+		// Arrange
+		const execute = ResiliencePolicy.wrap({
+			operationName: "embed",
+			rateLimiter: new RateLimiter({
+				limit: 1,
+				intervalMs: 60000,
+				maxWaitMs: 0,
+			}),
+		});
+		await execute(() => Promise.resolve("vectors"));
+		const operation = jest.fn().mockResolvedValue("vectors");
+
+		// Act & Assert
+		await expect(execute(operation)).rejects.toBeInstanceOf(
+			RateLimitExceededError,
+		);
+		expect(operation).not.toHaveBeenCalled();
+	});
+
+	it("should return the fallback result once the retries are exhausted", async () => {
+		// Arrange
+		const fallback = jest.fn(
+			(_error: Error, _context: ExecutionContext) => [] as string[],
+		);
+		const execute = ResiliencePolicy.wrap({
+			operationName: "listUsers",
+			retry: new RetryHandler(2, 1),
+			fallback,
+		});
+		const error = new APIError("Unavailable", 503);
+
+		// Act
+		const result: string[] = await execute(() => Promise.reject(error));
+
+		// Assert
+		expect(result).toEqual([]);
+		expect(fallback).toHaveBeenCalledTimes(1);
+		expect(fallback.mock.calls[0]).toEqual([
+			expect.objectContaining({ retryCount: 1 }),
+			{ operationName: "listUsers", attempt: 2, signal: undefined },
+		]);
+	});
+
+	it("should give the fallback the caller's signal rather than the timed out one", async () => {
+		// Arrange
+		const controller = new AbortController();
+		const fallback = jest.fn(
+			(_error: Error, _context: ExecutionContext) => "fallback",
+		);
+		const execute = ResiliencePolicy.wrap({
+			timeout: new TimeoutHandler(5),
+			fallback,
+		});
+
+		// Act
+		const result = await execute(
+			() => new Promise<string>(() => {}),
+			controller.signal,
+		);
+
+		// Assert
+		expect(result).toBe("fallback");
+		expect(fallback.mock.calls[0]?.[0]).toBeInstanceOf(TimeoutError);
+		expect(fallback.mock.calls[0]?.[1]).toEqual({
+			operationName: "operation",
+			attempt: 1,
+			signal: controller.signal,
+		});
+	});
+
+	it("should not fall back when the caller cancels", async () => {
+		// Arrange
+		const controller = new AbortController();
+		const fallback = jest.fn(() => "fallback");
+		const execute = ResiliencePolicy.wrap({ fallback });
+
+		// Act
+		const result = execute(({ signal }) => {
+			controller.abort(new Error("Stopped by caller"));
+			return Promise.reject(signal?.reason);
+		}, controller.signal);
+
+		// Assert
+		await expect(result).rejects.toThrow("Stopped by caller");
+		expect(fallback).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,176 @@
+/**
+ * @fileoverview Composition of the resilience primitives into a single execution pipeline.
+ */
+
+import type { IRateLimiter } from "../utils/rate-limiter";
+import type {
+	ExecutionContext,
+	IBulkhead,
+	ICircuitBreaker,
+	IRetryHandler,
+	ITimeoutHandler,
+} from "./types";
+
+/**
+ * Policies composed by a ResiliencePolicy. Every policy is optional.
+ */
+export interface ResiliencePolicyOptions<TFallback> {
+	/** Name of the operation, shared with every policy (default: "operation") */
+	operationName?: string;
+	/** Time limit of each attempt */
+	timeout?: ITimeoutHandler;
+	/** Retries of failed attempts */
+	retry?: IRetryHandler;
+	/** Retry decision passed to the RetryHandler (default: its own) */
+	shouldRetry?: (error: Error) => boolean;
+	/** Circuit breaker every attempt goes through */
+	circuitBreaker?: ICircuitBreaker;
+	/** Concurrency limit every attempt goes through, before reaching the circuit breaker */
+	bulkhead?: IBulkhead;
+	/** Rate limit every attempt acquires a permit from, keyed by the operation name */
+	rateLimiter?: IRateLimiter;
+	/**
+	 * Result used when the execution fails for good (not called when the caller cancels),
+	 * given the number of attempts made and the caller's signal
+	 */
+	fallback?: (
+		error: Error,
+		context: ExecutionContext,
+	) => TFallback | Promise<TFallback>;
+}
+
+/**
+ * Operation wrapped by a ResiliencePolicy.
+ */
+export type ResilientExecute<TFallback> = <T>(
+	operation: (context: ExecutionContext) => Promise<T>,
+	signal?: AbortSignal,
+) => Promise<T | TFallback>;
+
+/**
+ * Resilience pipeline composing timeout, retry, rate limiter, bulkhead, circuit breaker and fallback policies
+ * in a fixed order, from the outermost to the innermost:
+ *
+ * fallback → retry → rate limiter → bulkhead → circuit breaker → timeout → operation
+ *
+ * - every attempt of the retry goes through the circuit breaker, so that failures are counted per attempt
+ * - the bulkhead holds a slot per attempt, and its rejections are not counted as circuit breaker failures
+ * - each attempt acquires a permit of the rate limiter before waiting for a bulkhead slot
+ * - the time limit applies to each attempt, and counts as a circuit breaker failure when reached
+ * - the fallback sees the final error, once the retries are exhausted
+ *
+ * The policies of the chain and the operation receive the execution context: operation name,
+ * attempt number and the signal aborted on timeout or when the caller cancels.
+ * The fallback receives the context of the last attempt, with the caller's signal.
+ *
+ * @example
+ * ```typescript
+ * const execute = ResiliencePolicy.wrap({
+ *     operationName: "searchProducts",
+ *     timeout: new TimeoutHandler(2000),
+ *     retry: new RetryHandler(3, 200, { backoff: fullJitterBackoff }),
+ *     circuitBreaker: new CircuitBreaker(5, 30000),
+ *     bulkhead: new Bulkhead(10, 50, 1000),
+ *     fallback: () => [] as Product[],
+ * });
+ * const products = await execute(({ signal }) => searchApi.search(query, { signal })); // Product[]
+ * ```
+ */
+export class ResiliencePolicy<TFallback = never> {
+	constructor(private readonly options: ResiliencePolicyOptions<TFallback>) {}
+
+	/**
+	 * Build a ResiliencePolicy and return its execute function.
+	 */
+	static wrap<TFallback = never>(
+		options: ResiliencePolicyOptions<TFallback>,
+	): ResilientExecute<TFallback> {
+		const policy = new ResiliencePolicy(options);
+		return (operation, signal) => policy.execute(operation, signal);
+	}
+
+	async execute<T>(
+		operation: (context: ExecutionContext) => Promise<T>,
+		signal?: AbortSignal,
+	): Promise<T | TFallback> {
+		const { operationName = "operation", retry } = this.options;
+		let attempts = 0;
+		const runAttempt = (attemptSignal?: AbortSignal) =>
+			this.runAttempt(operation, ++attempts, attemptSignal);
+
+		try {
+			return await (retry
+				? retry.execute(runAttempt, this.options.shouldRetry, signal)
+				: runAttempt(signal));
+		} catch (error) {
+			const { fallback } = this.options;
+			if (!fallback || signal?.aborted) {
+				throw error;
+			}
+			return await fallback(
+				error instanceof Error ? error : new Error(String(error)),
+				{ operationName, attempt: attempts, signal },
+			);
+		}
+	}
+
+	/**
+	 * Run an attempt through the rate limiter, bulkhead, circuit breaker and timeout,
+	 * each policy receiving the context of the attempt with the signal it is given.
+	 */
+	private runAttempt<T>(
+		operation: (context: ExecutionContext) => Promise<T>,
+		attempt: number,
+		signal?: AbortSignal,
+	): Promise<T> {
+		const {
+			operationName = "operation",
+			timeout,
+			circuitBreaker,
+			bulkhead,
+			rateLimiter,
+		} = this.options;
+
+		const contextOf = (
+			attemptSignal: AbortSignal | undefined,
+		): ExecutionContext => ({ operationName, attempt, signal: attemptSignal });
+
+		const runOperation = (operationSignal?: AbortSignal) =>
+			operation(contextOf(operationSignal));
+		const runWithTimeout = timeout
+			? (attemptSignal?: AbortSignal) =>
+					timeout.execute(
+						runOperation,
+						operationName,
+						attemptSignal,
+						contextOf(attemptSignal),
+					)
+			: runOperation;
+		const runWithCircuitBreaker = circuitBreaker
+			? (attemptSignal?: AbortSignal) =>
+					circuitBreaker.execute(
+						runWithTimeout,
+						operationName,
+						attemptSignal,
+						contextOf(attemptSignal),
+					)
+			: runWithTimeout;
+		const runWithBulkhead = bulkhead
+			? (attemptSignal?: AbortSignal) =>
+					bulkhead.execute(
+						runWithCircuitBreaker,
+						operationName,
+						attemptSignal,
+						contextOf(attemptSignal),
+					)
+			: runWithCircuitBreaker;
+		return rateLimiter
+			? rateLimiter.execute(
+					runWithBulkhead,
+					operationName,
+					signal,
+					contextOf(signal),
+				)
+			: runWithBulkhead(signal);
+	}
+}
@@ -0,0 +1,26 @@
+import { AppError } from "./app-error";
+import { ErrorCode } from "./error-codes";
+import type { RetryAttempt } from "./types";
+
+/**
+ * RetryDeadlineExceededError class to represent a retried operation running out of its time budget.
+ * The cause is the error of the last attempt.
+ */
+export class RetryDeadlineExceededError extends AppError {
+	constructor(
+		public readonly deadlineMs: number,
+		public readonly attempts: readonly RetryAttempt[],
+	) {
+		const lastError = attempts.at(-1)?.error;
+		super(
+			`Retry deadline of ${deadlineMs}ms exceeded after ${attempts.length} attempt(s)${lastError ? `: ${lastError.message}` : ""}`,
+			{
+				code: ErrorCode.RETRY_DEADLINE_EXCEEDED,
+				severity: "high",
+				retryable: true,
+				cause: lastError,
+			},
+		);
+		this.name = "RetryDeadlineExceededError";
+	}
+}
@@ -0,0 +1,32 @@
+import { DataFetchError } from "./data-fetch-error";
+import { ErrorCode } from "./error-codes";
+import type { RetryAttempt } from "./types";
+
+/**
+ * RetryExhaustedError class to represent an operation failing for good after several attempts,
+ * either still failing after its last attempt or failing with an error that is not retried.
+ * The cause is an AggregateError holding the error of every attempt, in order.
+ */
+export class RetryExhaustedError extends DataFetchError {
+	public override readonly code: string = ErrorCode.RETRY_EXHAUSTED;
+	public override readonly severity = "high";
+
+	constructor(
+		public readonly attempts: readonly RetryAttempt[],
+		source?: string,
+		operation?: string,
+	) {
+		const lastError = attempts.at(-1)?.error;
+		super(
+			`Operation failed after ${attempts.length} attempt(s)${lastError ? `: ${lastError.message}` : ""}`,
+			source,
+			operation,
+			Math.max(0, attempts.length - 1),
+			new AggregateError(
+				attempts.map((attempt) => attempt.error),
+				"Errors of every attempt",
+			),
+		);
+		this.name = "RetryExhaustedError";
+	}
+}
@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Unit tests for the CircuitBreaker sliding windows.
+ */
+
+import { describe, expect, it } from "bun:test";
+import { CountSlidingWindow, TimeSlidingWindow } from "./sliding-window";
+
+describe("CountSlidingWindow", () => {
+	it("should aggregate the last calls only", () => {
+		const window = new CountSlidingWindow(3);
+
+		window.record({ failed: true, slow: true });
+		window.record({ failed: true, slow: false });
+		window.record({ failed: false, slow: false });
+		window.record({ failed: false, slow: true });
+
+		expect(window.getSnapshot()).toEqual({
+			calls: 3,
+			failures: 1,
+			slowCalls: 1,
+			failureRate: (1 / 3) * 100,
+			slowCallRate: (1 / 3) * 100,
+		});
+	});
+
+	it("should report zero rates without calls", () => {
+		const window = new CountSlidingWindow(3);
+		window.record({ failed: true, slow: false });
+
+		window.reset();
+
+		expect(window.getSnapshot()).toEqual({
+			calls: 0,
+			failures: 0,
+			slowCalls: 0,
+			failureRate: 0,
+			slowCallRate: 0,
+		});
+	});
+});
+
+describe("TimeSlidingWindow", () => {
+	it("should aggregate the calls of the last seconds only", () => {
+		const window = new TimeSlidingWindow(3000);
+
+		window.record({ failed: true, slow: false }, 0);
+		window.record({ failed: true, slow: false }, 1500);
+		window.record({ failed: false, slow: true }, 3200);
+
+		expect(window.getSnapshot(3200)).toEqual({
+			calls: 2,
+			failures: 1,
+			slowCalls: 1,
+			failureRate: 50,
+			slowCallRate: 50,
+		});
+		expect(window.getSnapshot(6500)).toMatchObject({ calls: 0 });
+	});
+
+	it("should count the calls of a clock going backwards in the current second", () => {
+		const window = new TimeSlidingWindow(1000);
+
+		window.record({ failed: true, slow: false }, 5000);
+		window.record({ failed: false, slow: false }, 4000);
+
+		expect(window.getSnapshot(5500)).toMatchObject({ calls: 2, failures: 1 });
+	});
+
+	it("should forget the calls on reset", () => {
+		const window = new TimeSlidingWindow(2000);
+		window.record({ failed: true, slow: false }, 0);
+
+		window.reset();
+		window.record({ failed: false, slow: false }, 500);
+
+		expect(window.getSnapshot(500)).toMatchObject({ calls: 1, failures: 0 });
+	});
+});
@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Sliding windows of call outcomes, aggregated by the CircuitBreaker
+ * to compute failure and slow call rates.
+ */
+
+/**
+ * Outcome of a call recorded in a sliding window.
+ */
+export interface CallOutcome {
+	/** Whether the call failed */
+	failed: boolean;
+	/** Whether the call exceeded the slow call duration threshold */
+	slow: boolean;
+}
+
+/**
+ * Aggregated outcomes of the calls in a sliding window.
+ */
+export interface SlidingWindowSnapshot {
+	/** Number of calls */
+	calls: number;
+	/** Number of failed calls */
+	failures: number;
+	/** Number of slow calls */
+	slowCalls: number;
+	/** Percentage of failed calls (0 without calls) */
+	failureRate: number;
+	/** Percentage of slow calls (0 without calls) */
+	slowCallRate: number;
+}
+
+export interface ISlidingWindow {
+	record(outcome: CallOutcome, now: number): void;
+	getSnapshot(now: number): SlidingWindowSnapshot;
+	reset(): void;
+}
+
+/**
+ * Running totals of the outcomes of a sliding window, or of one of its buckets.
+ */
+interface OutcomeTotals {
+	calls: number;
+	failures: number;
+	slowCalls: number;
+}
+
+/**
+ * Sliding window of the last `size` calls, kept in a ring buffer with running totals.
+ */
+export class CountSlidingWindow implements ISlidingWindow {
+	private readonly outcomes: Array<CallOutcome | undefined>;
+	private next = 0;
+	private readonly totals = emptyTotals();
+
+	constructor(private readonly size: number) {
+		this.outcomes = new Array(size);
+	}
+
+	record(outcome: CallOutcome): void {
+		const evicted = this.outcomes[this.next];
+		if (evicted) {
+			addOutcome(this.totals, evicted, -1);
+		}
+		this.outcomes[this.next] = outcome;
+		addOutcome(this.totals, outcome, 1);
+		this.next = (this.next + 1) % this.size;
+	}
+
+	getSnapshot(): SlidingWindowSnapshot {
+		return toSnapshot(this.totals);
+	}
+
+	reset(): void {
+		this.outcomes.fill(undefined);
+		this.next = 0;
+		Object.assign(this.totals, emptyTotals());
+	}
+}
+
+/**
+ * Sliding window of the calls of the last `durationMs` milliseconds, rounded up to whole seconds.
+ * Calls are counted in one bucket per second with running totals, so that recording a call
+ * and reading the snapshot do not depend on the number of calls in the window.
+ */
+export class TimeSlidingWindow implements ISlidingWindow {
+	private readonly buckets: OutcomeTotals[];
+	private readonly totals = emptyTotals();
+	private currentSecond = Number.NEGATIVE_INFINITY;
+
+	constructor(durationMs: number) {
+		this.buckets = Array.from(
+			{ length: Math.max(1, Math.ceil(durationMs / 1000)) },
+			emptyTotals,
+		);
+	}
+
+	record(outcome: CallOutcome, now: number): void {
+		addOutcome(this.advance(now), outcome, 1);
+		addOutcome(this.totals, outcome, 1);
+	}
+
+	getSnapshot(now: number): SlidingWindowSnapshot {
+		this.advance(now);
+		return toSnapshot(this.totals);
+	}
+
+	reset(): void {
+		for (const bucket of this.buckets) {
+			Object.assign(bucket, emptyTotals());
+		}
+		Object.assign(this.totals, emptyTotals());
+		this.currentSecond = Number.NEGATIVE_INFINITY;
+	}
+
+	/**
+	 * Clear the buckets of the seconds that left the window, at most once each.
+	 * @returns Bucket of the current second.
+	 */
+	private advance(now: number): OutcomeTotals {
+		// A clock going backwards keeps counting in the current bucket
+		const second = Math.max(Math.floor(now / 1000), this.currentSecond);
+		const count = this.buckets.length;
+		for (
+			let next = Math.max(this.currentSecond + 1, second - count + 1);
+			next <= second;
+			next++
+		) {
+			const bucket = this.bucketOf(next);
+			this.totals.calls -= bucket.calls;
+			this.totals.failures -= bucket.failures;
+			this.totals.slowCalls -= bucket.slowCalls;
+			Object.assign(bucket, emptyTotals());
+		}
+		this.currentSecond = second;
+		return this.bucketOf(second);
+	}
+
+	private bucketOf(second: number): OutcomeTotals {
+		const count = this.buckets.length;
+		return this.buckets[((second % count) + count) % count] as OutcomeTotals;
+	}
+}
+
+function emptyTotals(): OutcomeTotals {
+	return { calls: 0, failures: 0, slowCalls: 0 };
+}
+
+function addOutcome(
+	totals: OutcomeTotals,
+	outcome: CallOutcome,
+	sign: 1 | -1,
+): void {
+	totals.calls += sign;
+	if (outcome.failed) {
+		totals.failures += sign;
+	}
+	if (outcome.slow) {
+		totals.slowCalls += sign;
+	}
+}
+
+function toSnapshot({
+	calls,
+	failures,
+	slowCalls,
+}: OutcomeTotals): SlidingWindowSnapshot {
+	return {
+		calls,
+		failures,
+		slowCalls,
+		failureRate: calls === 0 ? 0 : (failures / calls) * 100,
+		slowCallRate: calls === 0 ? 0 : (slowCalls / calls) * 100,
+	};
+}
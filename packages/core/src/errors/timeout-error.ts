@@ -0,0 +1,18 @@
+import { AppError } from "./app-error";
+import { ErrorCode } from "./error-codes";
+
+/**
+ * TimeoutError class to represent an operation that did not settle within its time limit.
+ */
+export class TimeoutError extends AppError {
+	constructor(
+		public readonly timeoutMs: number,
+		public readonly operationName?: string,
+	) {
+		super(
+			`Operation ${operationName ? `${operationName} ` : ""}timed out after ${timeoutMs}ms`,
+			{ code: ErrorCode.TIMEOUT, retryable: true },
+		);
+		this.name = "TimeoutError";
+	}
+}
@@ -1,3 +1,6 @@
+import type { ILogger } from "../logger/types";
+import type { CircuitOpenError } from "./circuit-open-error";
+
 /**
  * Error handling interfaces and types.
  * This file defines interfaces for error handling, retry logic, and circuit breaker patterns.
@@ -11,23 +14,240 @@ export interface IErrorHandler {
 	handleError<T extends Error>(
 		error: unknown,
 		ErrorClass: new (message: string) => T,
-		options?: Omit<T, "message" | "name" | "cause"> &
-			Partial<Pick<T, "message">>,
+		options?: Partial<Omit<T, "name" | "cause">>,
 	): T;
 }
 
+/**
+ * Context passed to a backoff strategy to compute the delay before a retry.
+ */
+export interface BackoffContext {
+	/** Number of the attempt that just failed (starting at 1) */
+	attempt: number;
+	/** Base delay of the RetryHandler in milliseconds */
+	baseDelayMs: number;
+	/** Delay before the previous retry in milliseconds (baseDelayMs before the first retry) */
+	previousDelayMs: number;
+}
+
+/**
+ * Strategy computing the delay in milliseconds before a retry.
+ */
+export type BackoffStrategy = (context: BackoffContext) => number;
+
+/**
+ * Options of the RetryHandler.
+ */
+export interface RetryOptions {
+	/** Strategy computing the delay before each retry (default: exponentialBackoff) */
+	backoff?: BackoffStrategy;
+	/**
+	 * Upper bound of the delay before a retry in milliseconds (default: no bound).
+	 * Errors requesting a longer delay (Retry-After) are not retried.
+	 */
+	maxDelayMs?: number;
+	/** Overall time budget of an execution in milliseconds, retries included (default: no budget) */
+	deadlineMs?: number;
+	/** Name of the operation, used in log messages and as `operation` of a RetryExhaustedError */
+	operationName?: string;
+	/** Called after a failed attempt, before sleeping until the next one */
+	onRetry?: (event: RetryEvent) => void;
+	/** Called when the execution fails for good, whether attempts ran out or the error is not retryable */
+	onGiveUp?: (event: GiveUpEvent) => void;
+	/** Logger warned of every retry and of giving up */
+	logger?: ILogger;
+}
+
+/**
+ * Retry of a failed attempt, as reported to `RetryOptions.onRetry`.
+ */
+export interface RetryEvent extends RetryAttempt {
+	/** Delay before the next attempt in milliseconds */
+	delayMs: number;
+}
+
+/**
+ * Failure of an execution, as reported to `RetryOptions.onGiveUp`.
+ */
+export interface GiveUpEvent extends RetryAttempt {
+	/** Every failed attempt, in order */
+	attempts: readonly RetryAttempt[];
+}
+
+/**
+ * Failed attempt of a retried operation.
+ */
+export interface RetryAttempt {
+	/** Number of the attempt (starting at 1) */
+	attempt: number;
+	/** Error of the attempt */
+	error: Error;
+	/** Time elapsed since the start of the execution when the attempt failed, in milliseconds */
+	elapsedMs: number;
+}
+
 /**
  * RetryHandler interface for executing operations with retry logic.
  * The execute method takes an asynchronous operation and an optional shouldRetry function.
- * The shouldRetry function determines whether to retry the operation based on the error encountered.
+ * The shouldRetry function determines whether to retry the operation based on the error encountered
+ * (default: `isRetryableError()`).
+ * The optional signal is passed to the operation and cancels the pending retries,
+ * the execution then rejecting with the abort reason.
  */
 export interface IRetryHandler {
 	execute<T>(
-		operation: () => Promise<T>,
+		operation: (signal?: AbortSignal) => Promise<T>,
 		shouldRetry?: (error: Error) => boolean,
+		signal?: AbortSignal,
 	): Promise<T>;
 }
 
+/**
+ * State of a circuit breaker.
+ */
+export type CircuitState = "CLOSED" | "OPEN" | "HALF_OPEN";
+
+/**
+ * Call through a circuit breaker, as reported by its `success` and `failure` events.
+ */
+export interface CircuitCallEvent {
+	/** Name of the operation */
+	operationName: string;
+	/** Number of the attempt, when the call is made through a ResiliencePolicy */
+	attempt?: number | undefined;
+	/** Duration of the call in milliseconds */
+	durationMs: number;
+	/** Error of a failed call */
+	error?: unknown;
+}
+
+/**
+ * Transition of a circuit breaker, as reported by its `stateChange` event.
+ */
+export interface CircuitStateChangeEvent {
+	from: CircuitState;
+	to: CircuitState;
+	/** Name of the operation whose call caused the transition */
+	operationName: string;
+}
+
+/**
+ * Events emitted by a CircuitBreaker.
+ */
+export interface CircuitBreakerEvents {
+	stateChange: [event: CircuitStateChangeEvent];
+	success: [event: CircuitCallEvent];
+	failure: [event: CircuitCallEvent];
+	/** A call was rejected because the circuit is open */
+	rejected: [error: CircuitOpenError];
+	/** The state store failed, the circuit goes on with its local state */
+	stateStoreError: [error: unknown];
+	/** A listener of another event threw, without changing the outcome of the call */
+	listenerError: [error: unknown, event: keyof CircuitBreakerEvents];
+}
+
+/**
+ * Snapshot of the metrics of a circuit breaker, counted since its creation.
+ */
+export interface CircuitBreakerMetrics {
+	state: CircuitState;
+	/** Calls that went through the circuit (successful and failed calls) */
+	calls: number;
+	successfulCalls: number;
+	failedCalls: number;
+	/** Calls slower than the slow call duration threshold */
+	slowCalls: number;
+	/** Calls rejected because the circuit was open */
+	rejectedCalls: number;
+	/** Percentage of failed calls (0 without calls) */
+	failureRate: number;
+	/** Time spent in each state in milliseconds */
+	timeInStateMs: Record<CircuitState, number>;
+}
+
+/**
+ * Mode of the CircuitBreaker:
+ * - consecutive: opens after `failureThreshold` consecutive failures
+ * - count: opens on the failure or slow call rate of the last `slidingWindowSize` calls
+ * - time: opens on the failure or slow call rate of the calls of the last `slidingWindowDurationMs` milliseconds
+ */
+export type SlidingWindowType = "consecutive" | "count" | "time";
+
+/**
+ * Options of the CircuitBreaker. The rate thresholds only apply to the count and time modes.
+ * The half-open options apply to every mode: once the probe calls are over, the circuit
+ * reopens unless enough of them succeeded.
+ */
+export interface CircuitBreakerOptions {
+	/** Mode of the circuit breaker (default: "consecutive") */
+	slidingWindowType?: SlidingWindowType;
+	/** Number of calls in a count window (default: 100) */
+	slidingWindowSize?: number;
+	/** Duration of a time window in milliseconds, counted in whole seconds (default: 60000) */
+	slidingWindowDurationMs?: number;
+	/** Percentage of failed calls opening the circuit (default: 50) */
+	failureRateThreshold?: number;
+	/** Number of calls in the window before the rates are evaluated (default: 10) */
+	minimumNumberOfCalls?: number;
+	/** Duration in milliseconds above which a call is slow (default: none) */
+	slowCallDurationThresholdMs?: number;
+	/** Percentage of slow calls opening the circuit (default: 100) */
+	slowCallRateThreshold?: number;
+	/** Number of probe calls let through in half-open state, extra callers being rejected (default: 1) */
+	permittedCallsInHalfOpen?: number;
+	/** Successful probe calls closing the circuit (default: permittedCallsInHalfOpen) */
+	halfOpenSuccessThreshold?: number;
+	/** Failed probe calls reopening the circuit (default: 1) */
+	halfOpenFailureThreshold?: number;
+	/** Store sharing the state of the circuit between processes (default: none) */
+	stateStore?: ICircuitStateStore | undefined;
+	/** Key of the circuit in the state store, required with a state store */
+	stateKey?: string | undefined;
+	/** Minimum time between two reads of the state store (default: 1000) */
+	stateSyncIntervalMs?: number | undefined;
+	/** Time limit of each read or save of the state store in milliseconds (default: 1000) */
+	stateStoreTimeoutMs?: number | undefined;
+}
+
+/**
+ * State of a circuit breaker shared through a state store.
+ */
+export interface CircuitStateSnapshot {
+	state: CircuitState;
+	/** Consecutive failures */
+	failures: number;
+	/** Time the circuit was opened at, in milliseconds since the epoch */
+	openedAt?: number | undefined;
+	/** Whether the circuit was forced open */
+	forcedOpen: boolean;
+}
+
+/**
+ * State of a circuit breaker as saved in a state store.
+ */
+export interface StoredCircuitState extends CircuitStateSnapshot {
+	/** Version incremented on every save */
+	version: number;
+}
+
+/**
+ * Store sharing the state of circuit breakers between processes.
+ * Transitions are shared, while sliding windows and probe calls stay local to each process.
+ */
+export interface ICircuitStateStore {
+	get(key: string): Promise<StoredCircuitState | undefined>;
+	/**
+	 * Save the state of a circuit if its version is still `expectedVersion` (0 if it was never saved),
+	 * incrementing its version.
+	 * @returns The saved state, or undefined if another process saved the circuit in the meantime.
+	 */
+	set(
+		key: string,
+		snapshot: CircuitStateSnapshot,
+		expectedVersion: number,
+	): Promise<StoredCircuitState | undefined>;
+}
+
 /**
  * CircuitBreaker interface for executing operations with circuit breaker pattern.
  *
@@ -38,9 +258,71 @@ export interface IRetryHandler {
  *
  * The interface provides methods to execute operations, get the current state of the circuit breaker,
  * and retrieve the count of consecutive failures.
+ * Operations cancelled through the optional signal are not counted as failures.
  */
 export interface ICircuitBreaker {
-	execute<T>(operation: () => Promise<T>, operationName: string): Promise<T>;
-	getState(): "CLOSED" | "OPEN" | "HALF_OPEN";
+	execute<T>(
+		operation: (signal?: AbortSignal) => Promise<T>,
+		operationName: string,
+		signal?: AbortSignal,
+		context?: ExecutionContext,
+	): Promise<T>;
+	getState(): CircuitState;
 	getFailureCount(): number;
 }
+
+/**
+ * TimeoutHandler interface for executing operations with a time limit.
+ * The operation receives a signal aborted when the time limit is reached or when the caller's signal is aborted.
+ * The execution rejects with a TimeoutError when the time limit is reached.
+ */
+export interface ITimeoutHandler {
+	execute<T>(
+		operation: (signal: AbortSignal) => Promise<T>,
+		operationName?: string,
+		signal?: AbortSignal,
+		context?: ExecutionContext,
+	): Promise<T>;
+}
+
+/**
+ * Live statistics of a Bulkhead.
+ */
+export interface BulkheadStats {
+	/** Calls currently running */
+	activeCalls: number;
+	/** Calls waiting for a free slot */
+	queuedCalls: number;
+	/** Free slots */
+	availableSlots: number;
+	maxConcurrent: number;
+	maxQueue: number;
+	/** Calls rejected since the creation of the bulkhead (full queue or queue timeout) */
+	rejectedCalls: number;
+}
+
+export interface IBulkhead {
+	execute<T>(
+		operation: (signal?: AbortSignal) => Promise<T>,
+		operationName: string,
+		signal?: AbortSignal,
+		context?: ExecutionContext,
+	): Promise<T>;
+	getStats(): BulkheadStats;
+}
+
+/**
+ * Context of an execution through a ResiliencePolicy, shared by every policy of the chain,
+ * the operation and the fallback.
+ */
+export interface ExecutionContext {
+	/** Name of the operation */
+	readonly operationName: string;
+	/** Number of the current attempt (starting at 1, 0 before the first attempt) */
+	readonly attempt: number;
+	/**
+	 * Signal aborted on timeout or when the caller cancels the execution
+	 * (the caller's signal for the fallback)
+	 */
+	readonly signal: AbortSignal | undefined;
+}
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Time limit for asynchronous operations.
+ */
+
+import { TimeoutError } from "./timeout-error";
+
+/**
+ * Options of `withTimeout()`.
+ */
+export interface WithTimeoutOptions {
+	/** Name of the operation, reported by the TimeoutError */
+	operationName?: string | undefined;
+	/** Signal of the caller, cancelling the operation as well */
+	signal?: AbortSignal | undefined;
+}
+
+/**
+ * Run an operation with a time limit.
+ *
+ * The operation receives a signal aborted when the time limit is reached (with the TimeoutError as reason)
+ * or when the caller's signal is aborted, so that it can release its resources.
+ * The returned promise rejects right away in both cases, without waiting for the operation to settle.
+ * @throws TimeoutError if the operation does not settle within `timeoutMs`.
+ *
+ * @example
+ * ```typescript
+ * const rows = await withTimeout((signal) => pool.query({ text, signal }), 5000, { operationName: "listUsers" });
+ * ```
+ */
+export function withTimeout<T>(
+	operation: (signal: AbortSignal) => Promise<T>,
+	timeoutMs: number,
+	options: WithTimeoutOptions = {},
+): Promise<T> {
+	const { operationName, signal } = options;
+	return new Promise<T>((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+
+		const controller = new AbortController();
+		const onAbort = () => {
+			cleanup();
+			controller.abort(signal?.reason);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			cleanup();
+			const error = new TimeoutError(timeoutMs, operationName);
+			controller.abort(error);
+			reject(error);
+		}, timeoutMs);
+		const cleanup = () => {
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", onAbort);
+		};
+		signal?.addEventListener("abort", onAbort, { once: true });
+
+		try {
+			operation(controller.signal).then(
+				(result) => {
+					cleanup();
+					resolve(result);
+				},
+				(error) => {
+					cleanup();
+					reject(error);
+				},
+			);
+		} catch (error) {
+			cleanup();
+			reject(error);
+		}
+	});
+}
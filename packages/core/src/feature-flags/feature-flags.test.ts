@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Tests for FeatureFlags
+ */
+
+import { describe, expect, it, jest } from "bun:test";
+import z from "zod";
+import { createConfigService, EnvSource, type IConfig } from "../config";
+import { ConfigurationError } from "../errors";
+import { FeatureFlags } from "./feature-flags";
+import { featureFlagsSchema } from "./schema";
+
+describe("FeatureFlags", () => {
+	const schema = z.object({ featureFlags: featureFlagsSchema });
+
+	const createFlags = (featureFlags: unknown) => {
+		const values: IConfig = { featureFlags };
+		const config = createConfigService({
+			schema,
+			sources: [{ name: "test", load: () => structuredClone(values) }],
+		});
+		const flags = new FeatureFlags(config);
+		return { config, flags, values };
+	};
+
+	describe("evaluation", () => {
+		it("should evaluate boolean flags", () => {
+			const { flags } = createFlags({ darkMode: true, beta: false });
+
+			expect(flags.isEnabled("darkMode")).toBe(true);
+			expect(flags.isEnabled("beta")).toBe(false);
+		});
+
+		it("should disable unknown flags", () => {
+			const { flags } = createFlags({});
+
+			expect(flags.isEnabled("missing")).toBe(false);
+		});
+
+		it("should apply allow and deny lists", () => {
+			const { flags } = createFlags({
+				checkout: { rollout: 0, allow: ["qa", "both"], deny: ["both"] },
+			});
+
+			expect(flags.isEnabled("checkout", { key: "qa" })).toBe(true);
+			expect(flags.isEnabled("checkout", { key: "both" })).toBe(false);
+			expect(flags.isEnabled("checkout", { key: "other" })).toBe(false);
+		});
+
+		it("should disable flags that are switched off, even for allowed keys", () => {
+			const { flags } = createFlags({
+				checkout: { enabled: false, allow: ["qa"] },
+			});
+
+			expect(flags.isEnabled("checkout", { key: "qa" })).toBe(false);
+		});
+
+		it("should roll out to a stable share of context keys", () => {
+			const { flags } = createFlags({ checkout: { rollout: 30 } });
+			const keys = Array.from({ length: 1000 }, (_, i) => `user-${i}`);
+
+			const enabled = keys.filter((key) =>
+				flags.isEnabled("checkout", { key }),
+			);
+
+			expect(enabled.length).toBeGreaterThan(250);
+			expect(enabled.length).toBeLessThan(350);
+			expect(
+				keys.filter((key) => flags.isEnabled("checkout", { key })),
+			).toEqual(enabled);
+		});
+
+		it("should keep keys enabled when the rollout grows", () => {
+			const small = createFlags({ checkout: { rollout: 10 } }).flags;
+			const large = createFlags({ checkout: { rollout: 50 } }).flags;
+			const keys = Array.from({ length: 200 }, (_, i) => `user-${i}`);
+
+			for (const key of keys) {
+				if (small.isEnabled("checkout", { key })) {
+					expect(large.isEnabled("checkout", { key })).toBe(true);
+				}
+			}
+		});
+
+		it("should require a context key for partial rollouts", () => {
+			const { flags } = createFlags({
+				partial: { rollout: 50 },
+				full: { rollout: 100 },
+			});
+
+			expect(flags.isEnabled("partial")).toBe(false);
+			expect(flags.isEnabled("full")).toBe(true);
+		});
+	});
+
+	describe("validation", () => {
+		it("should reject invalid definitions with their config key", () => {
+			const config = createConfigService({
+				schema: z.object({ featureFlags: z.record(z.string(), z.unknown()) }),
+				sources: [
+					{
+						name: "test",
+						load: () => ({ featureFlags: { checkout: { rollout: 150 } } }),
+					},
+				],
+			});
+
+			let error: unknown;
+			try {
+				new FeatureFlags(config);
+			} catch (caught) {
+				error = caught;
+			}
+
+			expect(error).toBeInstanceOf(ConfigurationError);
+			expect((error as ConfigurationError).configKey).toBe(
+				"featureFlags.checkout.rollout",
+			);
+		});
+
+		it("should read flags from environment variables", () => {
+			const config = createConfigService({
+				schema,
+				sources: [
+					new EnvSource({
+						env: {
+							APP__FEATURE_FLAGS__DARK_MODE: "true",
+							APP__FEATURE_FLAGS__NEW_CHECKOUT__ROLLOUT: "25",
+						},
+					}),
+				],
+			});
+
+			const flags = new FeatureFlags(config);
+
+			expect(flags.isEnabled("darkMode")).toBe(true);
+			expect(flags.getFlags()["newCheckout"]).toEqual({
+				enabled: true,
+				rollout: 25,
+				allow: [],
+				deny: [],
+			});
+		});
+
+		it("should read flags from a custom config key", () => {
+			const config = createConfigService({
+				schema: z.object({ toggles: featureFlagsSchema }),
+				sources: [{ name: "test", load: () => ({ toggles: { a: true } }) }],
+			});
+
+			const flags = new FeatureFlags(config, { configKey: "toggles" });
+
+			expect(flags.isEnabled("a")).toBe(true);
+		});
+	});
+
+	describe("reload", () => {
+		it("should emit change events for added, changed and removed flags", () => {
+			const { config, flags, values } = createFlags({
+				kept: true,
+				changed: true,
+				removed: true,
+			});
+			const listener = jest.fn();
+			flags.on("change", listener);
+
+			values["featureFlags"] = { kept: true, changed: false, added: true };
+			config.reload();
+
+			expect(listener).toHaveBeenCalledTimes(3);
+			expect(listener).toHaveBeenCalledWith(
+				"changed",
+				{ enabled: false, allow: [], deny: [] },
+				{ enabled: true, allow: [], deny: [] },
+			);
+			expect(listener).toHaveBeenCalledWith("removed", undefined, {
+				enabled: true,
+				allow: [],
+				deny: [],
+			});
+			expect(listener).toHaveBeenCalledWith(
+				"added",
+				{ enabled: true, allow: [], deny: [] },
+				undefined,
+			);
+			expect(flags.isEnabled("changed")).toBe(false);
+			expect(flags.isEnabled("added")).toBe(true);
+		});
+
+		it("should stop following reloads once disposed", () => {
+			const { config, flags, values } = createFlags({ darkMode: true });
+			const listener = jest.fn();
+			flags.on("change", listener);
+
+			flags.dispose();
+			values["featureFlags"] = { darkMode: false };
+			config.reload();
+
+			expect(listener).not.toHaveBeenCalled();
+			expect(flags.isEnabled("darkMode")).toBe(true);
+		});
+	});
+});
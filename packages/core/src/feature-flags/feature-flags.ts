@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Feature flags read from the configuration
+ * Supports boolean flags, percentage rollouts and allow/deny lists, and follows configuration reloads
+ */
+
+import { createHash } from "node:crypto";
+import { EventEmitter } from "node:events";
+import { isDeepStrictEqual } from "node:util";
+
+import type { IConfig, IConfigService } from "../config";
+import { getByPath } from "../config/utils";
+import { ConfigurationError } from "../errors";
+import { featureFlagsSchema } from "./schema";
+import type {
+	FeatureFlagContext,
+	FeatureFlagDefinition,
+	FeatureFlagEvents,
+	FeatureFlagsOptions,
+	IFeatureFlags,
+} from "./types";
+
+const DEFAULT_CONFIG_KEY = "featureFlags";
+
+/**
+ * Feature flags evaluated from the definitions found at a configuration key.
+ *
+ * A flag is enabled for a context when it is enabled and:
+ * - the context key is not in `deny`, and
+ * - the context key is in `allow`, or the flag has no `rollout`,
+ *   or the context key falls into the `rollout` percentage.
+ *
+ * Rollout bucketing hashes the flag name with the context key, so a given key
+ * keeps the same result across processes and restarts.
+ *
+ * @example
+ * ```typescript
+ * // { "featureFlags": { "newCheckout": { "rollout": 25, "allow": ["qa-team"] }, "darkMode": true } }
+ * const flags = new FeatureFlags(config);
+ * if (flags.isEnabled("newCheckout", { key: user.id })) {
+ *     // ...
+ * }
+ * flags.on("change", (flag, definition) => logger.info(`Flag ${flag} changed`, { definition }));
+ * ```
+ */
+export class FeatureFlags
+	extends EventEmitter<FeatureFlagEvents>
+	implements IFeatureFlags
+{
+	private readonly configKey: string;
+	private readonly unsubscribe: () => void;
+	private flags: Record<string, FeatureFlagDefinition>;
+
+	/**
+	 * @throws ConfigurationError if the flag definitions are invalid.
+	 */
+	constructor(
+		config: IConfigService<IConfig>,
+		options: FeatureFlagsOptions = {},
+	) {
+		super();
+		this.configKey = options.configKey ?? DEFAULT_CONFIG_KEY;
+		this.flags = this.parseFlags(getByPath(config.getConfig(), this.configKey));
+		this.unsubscribe = config.subscribe(this.configKey, (value) =>
+			this.update(value),
+		);
+	}
+
+	isEnabled(flag: string, context: FeatureFlagContext = {}): boolean {
+		const definition = this.flags[flag];
+		if (!definition?.enabled) {
+			return false;
+		}
+		const { key } = context;
+		if (key !== undefined && definition.deny.includes(key)) {
+			return false;
+		}
+		if (key !== undefined && definition.allow.includes(key)) {
+			return true;
+		}
+		if (definition.rollout === undefined || definition.rollout >= 100) {
+			return true;
+		}
+		if (key === undefined) {
+			return false;
+		}
+		return this.getBucket(flag, key) < definition.rollout;
+	}
+
+	getFlags(): Record<string, FeatureFlagDefinition> {
+		return structuredClone(this.flags);
+	}
+
+	dispose(): void {
+		this.unsubscribe();
+	}
+
+	private update(value: unknown): void {
+		let flags: Record<string, FeatureFlagDefinition>;
+		try {
+			flags = this.parseFlags(value);
+		} catch (error) {
+			if (this.listenerCount("error") > 0) {
+				this.emit("error", error as ConfigurationError);
+			}
+			return;
+		}
+		const previous = this.flags;
+		this.flags = flags;
+		const names = new Set([...Object.keys(previous), ...Object.keys(flags)]);
+		for (const name of names) {
+			if (!isDeepStrictEqual(previous[name], flags[name])) {
+				this.emit("change", name, flags[name], previous[name]);
+			}
+		}
+	}
+
+	private parseFlags(value: unknown): Record<string, FeatureFlagDefinition> {
+		const result = featureFlagsSchema.safeParse(value);
+		if (!result.success) {
+			const issue = result.error.issues[0];
+			const configKey = [this.configKey, ...(issue?.path.map(String) ?? [])]
+				.filter((key) => key !== "")
+				.join(".");
+			throw new ConfigurationError(
+				`Invalid feature flag definition: ${issue?.message ?? "unknown error"}`,
+				configKey,
+			);
+		}
+		return result.data;
+	}
+
+	/**
+	 * Stable bucket of a context key for a flag, in [0, 100).
+	 */
+	private getBucket(flag: string, key: string): number {
+		const hash = createHash("sha256").update(`${flag}:${key}`).digest();
+		return (hash.readUInt32BE(0) / 0x100000000) * 100;
+	}
+}
@@ -0,0 +1,32 @@
+import z from "zod";
+
+/**
+ * Schema of a single feature flag.
+ * A boolean is shorthand for `{ enabled: <boolean> }`.
+ */
+export const featureFlagSchema = z
+	.union([
+		z.boolean(),
+		z.object({
+			enabled: z.boolean().default(true),
+			rollout: z.number().min(0).max(100).optional(),
+			allow: z.array(z.string()).default([]),
+			deny: z.array(z.string()).default([]),
+		}),
+	])
+	.transform((flag) =>
+		typeof flag === "boolean" ? { enabled: flag, allow: [], deny: [] } : flag,
+	);
+
+/**
+ * Schema of the feature flag definitions, keyed by flag name.
+ * Include it in the configuration schema so that flags are validated with the rest of the configuration:
+ *
+ * @example
+ * ```typescript
+ * const schema = z.object({ featureFlags: featureFlagsSchema });
+ * ```
+ */
+export const featureFlagsSchema = z
+	.record(z.string(), featureFlagSchema)
+	.default({});
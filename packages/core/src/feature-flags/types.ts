@@ -0,0 +1,61 @@
+import type { ConfigurationError } from "../errors";
+
+/**
+ * Definition of a feature flag, as read from the configuration.
+ */
+export interface FeatureFlagDefinition {
+	/** Master switch of the flag */
+	enabled: boolean;
+	/** Percentage (0-100) of context keys the flag is enabled for */
+	rollout?: number | undefined;
+	/** Context keys the flag is always enabled for */
+	allow: string[];
+	/** Context keys the flag is always disabled for (takes precedence over `allow`) */
+	deny: string[];
+}
+
+/**
+ * Context a feature flag is evaluated for.
+ */
+export interface FeatureFlagContext {
+	/** Stable key (e.g. user or tenant ID) used for allow/deny lists and rollout bucketing */
+	key?: string;
+}
+
+/**
+ * Options for creating FeatureFlags.
+ */
+export interface FeatureFlagsOptions {
+	/** Dot-separated configuration key holding the flag definitions (default: "featureFlags") */
+	configKey?: string;
+}
+
+/**
+ * Events emitted by FeatureFlags.
+ */
+export interface FeatureFlagEvents {
+	/** A flag definition was added, changed or removed by a configuration reload */
+	change: [
+		flag: string,
+		definition: FeatureFlagDefinition | undefined,
+		previous: FeatureFlagDefinition | undefined,
+	];
+	/** Reloaded flag definitions were invalid and ignored */
+	error: [error: ConfigurationError];
+}
+
+export interface IFeatureFlags {
+	/**
+	 * Check whether a flag is enabled for a context.
+	 * Unknown flags are disabled.
+	 */
+	isEnabled(flag: string, context?: FeatureFlagContext): boolean;
+	/**
+	 * Get the current flag definitions.
+	 */
+	getFlags(): Record<string, FeatureFlagDefinition>;
+	/**
+	 * Stop following configuration reloads.
+	 */
+	dispose(): void;
+}
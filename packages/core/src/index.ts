@@ -1,4 +1,6 @@
 // Re-export commonly used items for convenience
+export * from "./config";
+export * from "./feature-flags";
 export * from "./logger";
 export * from "./errors";
 export * from "./utils";
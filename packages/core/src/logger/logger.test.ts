@@ -700,6 +700,32 @@ describe("Logger with Sensitive Data Masking", () => {
 		});
 	});
 
+	describe("runtime configuration", () => {
+		beforeEach(() => {
+			logger = new Logger(config);
+		});
+
+		it("should change the log level", () => {
+			logger.setLevel("debug");
+
+			expect(mockWinstonLogger).toHaveProperty("level", "debug");
+		});
+
+		it("should replace the masking configuration", () => {
+			logger.setMaskingConfig({
+				enabled: false,
+				maskString: "***MASKED***",
+				customPatterns: [],
+			});
+
+			logger.info("Masking disabled", { apiKey: "secret123" });
+
+			expect(mockInfo).toHaveBeenCalledWith("Masking disabled", {
+				apiKey: "secret123",
+			});
+		});
+	});
+
 	describe("printf format testing", () => {
 		beforeEach(() => {
 			// Create a real printf function to test the actual logic
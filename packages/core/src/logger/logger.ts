@@ -1,9 +1,10 @@
 import winston from "winston";
 
-import type { ILogger, LoggingConfig } from "./types";
+import type { ILogger, LoggingConfig, LogLevel } from "./types";
 import {
 	DEFAULT_MASKING_CONFIG,
 	SensitiveDataMasker,
+	type SensitiveDataMaskingConfig,
 } from "./sensitive-data-masker";
 
 /**
@@ -24,6 +25,10 @@ import {
  *
  * The logger automatically masks sensitive information in both messages and metadata
  * based on predefined patterns and custom configurations.
+ *
+ * The log level and masking configuration can be changed at runtime,
+ * e.g. from ConfigService subscriptions:
+ * config.subscribe("logging.level", (level) => logger.setLevel(level as LogLevel));
  */
 export class Logger implements ILogger {
 	private winston: winston.Logger;
@@ -41,6 +46,20 @@ export class Logger implements ILogger {
 		});
 	}
 
+	/**
+	 * Change the minimum level of the logged messages.
+	 */
+	setLevel(level: LogLevel): void {
+		this.winston.level = level;
+	}
+
+	/**
+	 * Replace the sensitive data masking configuration.
+	 */
+	setMaskingConfig(config: SensitiveDataMaskingConfig): void {
+		this.masker = new SensitiveDataMasker(config);
+	}
+
 	error(message: string, meta?: Record<string, unknown>): void {
 		const maskedMessage = this.masker.maskMessage(message) as string;
 		const maskedMeta = this.masker.maskMetadata(meta);
@@ -347,4 +347,70 @@ describe("SensitiveDataMasker", () => {
 			expect(result).toHaveProperty("self", "[Circular]");
 		});
 	});
+
+	describe("sensitive values", () => {
+		it("should mask sensitive values in messages and any metadata field", () => {
+			const masker = new SensitiveDataMasker({
+				sensitiveValues: ["registered-s3cr3t"],
+			});
+
+			expect(masker.maskMessage("connecting with registered-s3cr3t")).toBe(
+				"connecting with ***MASKED***",
+			);
+			expect(
+				masker.maskMetadata({
+					note: "registered-s3cr3t",
+					nested: { list: ["x registered-s3cr3t"] },
+				}),
+			).toEqual({
+				note: "***MASKED***",
+				nested: { list: ["x ***MASKED***"] },
+			});
+		});
+
+		it("should only mask whole tokens", () => {
+			const masker = new SensitiveDataMasker({
+				sensitiveValues: ["localhost", "s3cr3t"],
+			});
+
+			expect(
+				masker.maskMessage("listening on localhost:3000, not localhosts"),
+			).toBe("listening on ***MASKED***:3000, not localhosts");
+			expect(masker.maskMessage("postgres://app:s3cr3t@db/app")).toBe(
+				"postgres://app:***MASKED***@db/app",
+			);
+		});
+
+		it("should ignore empty and short values", () => {
+			const masker = new SensitiveDataMasker({ sensitiveValues: ["", "app"] });
+
+			expect(masker.maskMessage("application uses app")).toBe(
+				"application uses app",
+			);
+		});
+
+		it("should escape regular expression characters of the values", () => {
+			const masker = new SensitiveDataMasker({ sensitiveValues: ["p.ss(1)"] });
+
+			expect(masker.maskMessage("p.ss(1) pass(1)")).toBe(
+				"***MASKED*** pass(1)",
+			);
+		});
+
+		it("should not share sensitive values between maskers", () => {
+			new SensitiveDataMasker({ sensitiveValues: ["other-s3cr3t"] });
+			const masker = new SensitiveDataMasker();
+
+			expect(masker.maskMessage("other-s3cr3t")).toBe("other-s3cr3t");
+		});
+
+		it("should not mask sensitive values when masking is disabled", () => {
+			const masker = new SensitiveDataMasker({
+				enabled: false,
+				sensitiveValues: ["disabled-s3cr3t"],
+			});
+
+			expect(masker.maskMessage("disabled-s3cr3t")).toBe("disabled-s3cr3t");
+		});
+	});
 });
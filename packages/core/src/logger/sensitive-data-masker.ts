@@ -13,6 +13,12 @@ export interface SensitiveDataMaskingConfig {
 	readonly maskString: string;
 	/** Additional field patterns to mask (beyond default ones) */
 	readonly customPatterns: string[];
+	/**
+	 * Values (e.g. resolved secrets) masked wherever they appear as a whole token,
+	 * in messages as well as in metadata, regardless of the field name.
+	 * Values shorter than 4 characters are ignored.
+	 */
+	readonly sensitiveValues?: readonly string[] | undefined;
 }
 
 /**
@@ -24,6 +30,11 @@ export const DEFAULT_MASKING_CONFIG: SensitiveDataMaskingConfig = {
 	customPatterns: [],
 };
 
+/**
+ * Minimum length of the sensitive values, shorter ones matching too many unrelated words.
+ */
+const MIN_SENSITIVE_VALUE_LENGTH = 4;
+
 /**
  * Utility class for masking sensitive data in log messages and metadata.
  */
@@ -31,6 +42,7 @@ export class SensitiveDataMasker {
 	private readonly config: SensitiveDataMaskingConfig;
 	private readonly sensitiveFieldPatterns: RegExp[];
 	private readonly sensitiveValuePatterns: RegExp[];
+	private readonly sensitiveValuesPattern: RegExp | undefined;
 
 	constructor(config: Partial<SensitiveDataMaskingConfig> = {}) {
 		this.config = { ...DEFAULT_MASKING_CONFIG, ...config };
@@ -68,6 +80,19 @@ export class SensitiveDataMasker {
 			// Basic auth tokens
 			/basic\s+[a-zA-Z0-9+/=]+/gi,
 		];
+
+		// Sensitive values, longest first, not preceded nor followed by a letter or digit
+		const sensitiveValues = [...new Set(this.config.sensitiveValues ?? [])]
+			.filter((value) => value.length >= MIN_SENSITIVE_VALUE_LENGTH)
+			.sort((a, b) => b.length - a.length)
+			.map((value) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+		this.sensitiveValuesPattern =
+			sensitiveValues.length > 0
+				? new RegExp(
+						`(?<![A-Za-z0-9])(?:${sensitiveValues.join("|")})(?![A-Za-z0-9])`,
+						"g",
+					)
+				: undefined;
 	}
 
 	/**
@@ -79,6 +104,12 @@ export class SensitiveDataMasker {
 		}
 
 		let maskedMessage = message;
+		if (this.sensitiveValuesPattern) {
+			maskedMessage = maskedMessage.replace(
+				this.sensitiveValuesPattern,
+				this.config.maskString,
+			);
+		}
 		for (const pattern of this.sensitiveValuePatterns) {
 			maskedMessage = maskedMessage.replace(pattern, this.config.maskString);
 		}
@@ -1 +1,2 @@
 export * from "./task-pool";
+export * from "./rate-limiter";
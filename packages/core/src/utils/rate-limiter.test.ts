@@ -0,0 +1,182 @@
+/**
+ * @fileoverview Unit tests for RateLimiter implementation
+ */
+
+import { afterEach, beforeEach, describe, expect, it, jest } from "bun:test";
+import { RateLimitExceededError } from "../errors";
+import { RateLimiter } from "./rate-limiter";
+
+describe("RateLimiter", () => {
+	let now: number;
+	const originalDateNow = Date.now;
+
+	beforeEach(() => {
+		now = 0;
+		Date.now = () => now;
+	});
+
+	afterEach(() => {
+		Date.now = originalDateNow;
+	});
+
+	describe("token-bucket mode", () => {
+		it("should let a burst up to the limit through", () => {
+			const limiter = new RateLimiter({ limit: 3, intervalMs: 1000 });
+
+			expect(limiter.tryAcquire("openai")).toBe(true);
+			expect(limiter.tryAcquire("openai", 2)).toBe(true);
+			expect(limiter.tryAcquire("openai")).toBe(false);
+		});
+
+		it("should refill permits over time", () => {
+			const limiter = new RateLimiter({ limit: 2, intervalMs: 1000 });
+			limiter.tryAcquire("openai", 2);
+
+			now = 499;
+			expect(limiter.tryAcquire("openai")).toBe(false);
+			now = 500;
+			expect(limiter.tryAcquire("openai")).toBe(true);
+			now = 2000;
+			expect(limiter.tryAcquire("openai", 2)).toBe(true);
+		});
+	});
+
+	describe("sliding-window mode", () => {
+		it("should allow the limit in any period of the interval", () => {
+			const limiter = new RateLimiter({
+				mode: "sliding-window",
+				limit: 2,
+				intervalMs: 1000,
+			});
+
+			expect(limiter.tryAcquire("openai")).toBe(true);
+			now = 600;
+			expect(limiter.tryAcquire("openai")).toBe(true);
+			expect(limiter.tryAcquire("openai")).toBe(false);
+			now = 1000;
+			expect(limiter.tryAcquire("openai")).toBe(true);
+			expect(limiter.tryAcquire("openai")).toBe(false);
+		});
+	});
+
+	describe("keys", () => {
+		it("should keep a separate limit per key", () => {
+			const limiter = new RateLimiter({
+				limit: 1,
+				intervalMs: 1000,
+				limits: { openai: { limit: 2, intervalMs: 1000 } },
+			});
+
+			expect(limiter.tryAcquire("cohere")).toBe(true);
+			expect(limiter.tryAcquire("cohere")).toBe(false);
+			expect(limiter.tryAcquire("openai", 2)).toBe(true);
+		});
+
+		it("should refuse more permits than the limit of the key", () => {
+			const limiter = new RateLimiter({ limit: 1, intervalMs: 1000 });
+
+			expect(() => limiter.tryAcquire("openai", 2)).toThrow(
+				"Cannot acquire 2 permits for openai, its limit is 1",
+			);
+		});
+
+		it("should only apply the limits of the key itself", () => {
+			const limiter = new RateLimiter({
+				limit: 1,
+				intervalMs: 1000,
+				limits: { openai: { limit: 2, intervalMs: 1000 } },
+			});
+
+			expect(limiter.tryAcquire("constructor")).toBe(true);
+			expect(limiter.tryAcquire("constructor")).toBe(false);
+			expect(limiter.tryAcquire("__proto__")).toBe(true);
+			expect(limiter.tryAcquire("__proto__")).toBe(false);
+		});
+
+		it("should drop the state of idle keys", () => {
+			const limiter = new RateLimiter({ limit: 1, intervalMs: 1000 });
+			const states = (limiter as unknown as { states: Map<string, unknown> })
+				.states;
+			limiter.tryAcquire("tenant-1");
+			now = 500;
+			limiter.tryAcquire("tenant-2");
+
+			now = 1000;
+			limiter.tryAcquire("tenant-3");
+
+			expect([...states.keys()]).toEqual(["tenant-2", "tenant-3"]);
+			expect(limiter.tryAcquire("tenant-2")).toBe(false);
+		});
+	});
+
+	describe("acquire", () => {
+		it("should wait until the permits are available", async () => {
+			// Arrange
+			Date.now = originalDateNow;
+			const limiter = new RateLimiter({ limit: 1, intervalMs: 20 });
+			limiter.tryAcquire("openai");
+			const startedAt = Date.now();
+
+			// Act
+			await limiter.acquire("openai");
+
+			// Assert
+			expect(Date.now() - startedAt).toBeGreaterThanOrEqual(15);
+			expect(limiter.tryAcquire("openai")).toBe(false);
+		});
+
+		it("should reject when the wait exceeds the maximum wait", async () => {
+			// Arrange
+			const limiter = new RateLimiter({
+				limit: 1,
+				intervalMs: 1000,
+				maxWaitMs: 100,
+			});
+			limiter.tryAcquire("openai");
+
+			// Act
+			const error = await limiter.acquire("openai").catch((e) => e);
+
+			// Assert
+			expect(error).toBeInstanceOf(RateLimitExceededError);
+			expect(error).toMatchObject({ key: "openai", retryAfterMs: 1000 });
+		});
+
+		it("should stop waiting when the caller cancels", async () => {
+			// Arrange
+			const limiter = new RateLimiter({ limit: 1, intervalMs: 60000 });
+			limiter.tryAcquire("openai");
+			const controller = new AbortController();
+
+			// Act
+			const acquired = limiter.acquire("openai", 1, controller.signal);
+			controller.abort(new Error("Stopped by caller"));
+
+			// Assert
+			await expect(acquired).rejects.toThrow("Stopped by caller");
+		});
+	});
+
+	describe("execute", () => {
+		it("should acquire a permit for the operation name before running it", async () => {
+			// Arrange
+			const limiter = new RateLimiter({
+				limit: 1,
+				intervalMs: 1000,
+				maxWaitMs: 0,
+			});
+			const operation = jest.fn().mockResolvedValue("vectors");
+
+			// Act
+			const result = await limiter.execute(operation, "embed");
+
+			// Assert
+			expect(result).toBe("vectors");
+			expect(operation).toHaveBeenCalledTimes(1);
+			await expect(limiter.execute(operation, "embed")).rejects.toThrow(
+				"Rate limit exceeded for embed",
+			);
+			expect(operation).toHaveBeenCalledTimes(1);
+		});
+	});
+});
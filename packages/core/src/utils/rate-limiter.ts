@@ -0,0 +1,273 @@
+/**
+ * @fileoverview In-process rate limiter with token-bucket and sliding-window modes and per-key limits
+ */
+
+import { RateLimitExceededError } from "../errors/rate-limit-exceeded-error";
+import type { ExecutionContext } from "../errors/types";
+
+/**
+ * Algorithm of a rate limiter:
+ * - token-bucket: the bucket holds up to `limit` permits, refilled continuously at `limit` per `intervalMs`,
+ *   so that bursts of up to `limit` calls go through at once
+ * - sliding-window: at most `limit` permits are acquired in any period of `intervalMs`
+ */
+export type RateLimiterMode = "token-bucket" | "sliding-window";
+
+/**
+ * Rate limit of a key
+ */
+export interface RateLimit {
+	/** Permits per interval */
+	limit: number;
+	/** Interval in milliseconds */
+	intervalMs: number;
+}
+
+/**
+ * Configuration options for rate limiter
+ */
+export interface RateLimiterOptions extends RateLimit {
+	/** Algorithm (default: "token-bucket") */
+	mode?: RateLimiterMode;
+	/** Limits per key, replacing the default limit */
+	limits?: Record<string, RateLimit>;
+	/**
+	 * Maximum time acquire waits for permits (default: no limit).
+	 * Calls that would wait longer are rejected with a RateLimitExceededError.
+	 */
+	maxWaitMs?: number;
+}
+
+/**
+ * Rate limiter interface
+ */
+export interface IRateLimiter {
+	/**
+	 * Acquire permits, waiting until they are available
+	 * @param key Key whose limit applies
+	 * @param permits Number of permits (default: 1)
+	 * @param signal Signal cancelling the wait
+	 * @throws RateLimitExceededError if the wait would exceed the maximum wait
+	 */
+	acquire(key: string, permits?: number, signal?: AbortSignal): Promise<void>;
+
+	/**
+	 * Acquire permits if they are available right away
+	 * @param key Key whose limit applies
+	 * @param permits Number of permits (default: 1)
+	 * @returns Whether the permits were acquired
+	 */
+	tryAcquire(key: string, permits?: number): boolean;
+
+	/**
+	 * Acquire a permit for the operation name, then execute the operation
+	 */
+	execute<T>(
+		operation: (signal?: AbortSignal) => Promise<T>,
+		operationName: string,
+		signal?: AbortSignal,
+		context?: ExecutionContext,
+	): Promise<T>;
+}
+
+interface RateLimitState {
+	/** Time until the permits are available (0 if they are) */
+	getWaitMs(permits: number, now: number): number;
+	take(permits: number, now: number): void;
+	/** Whether all the permits are available again, so that the state can be dropped */
+	isIdle(now: number): boolean;
+}
+
+class TokenBucket implements RateLimitState {
+	private tokens: number;
+	private refilledAt: number;
+
+	constructor(
+		private readonly rateLimit: RateLimit,
+		now: number,
+	) {
+		this.tokens = rateLimit.limit;
+		this.refilledAt = now;
+	}
+
+	getWaitMs(permits: number, now: number): number {
+		this.refill(now);
+		const missing = permits - this.tokens;
+		return missing <= 0
+			? 0
+			: Math.ceil((missing * this.rateLimit.intervalMs) / this.rateLimit.limit);
+	}
+
+	take(permits: number, now: number): void {
+		this.refill(now);
+		this.tokens -= permits;
+	}
+
+	isIdle(now: number): boolean {
+		this.refill(now);
+		return this.tokens >= this.rateLimit.limit;
+	}
+
+	private refill(now: number): void {
+		const { limit, intervalMs } = this.rateLimit;
+		this.tokens = Math.min(
+			limit,
+			this.tokens + ((now - this.refilledAt) * limit) / intervalMs,
+		);
+		this.refilledAt = now;
+	}
+}
+
+class SlidingWindow implements RateLimitState {
+	private entries: Array<{ at: number; permits: number }> = [];
+
+	constructor(private readonly rateLimit: RateLimit) {}
+
+	getWaitMs(permits: number, now: number): number {
+		this.evict(now);
+		let used = this.entries.reduce((sum, entry) => sum + entry.permits, 0);
+		if (used + permits <= this.rateLimit.limit) {
+			return 0;
+		}
+		// Wait for the oldest entries to leave the window
+		for (const entry of this.entries) {
+			used -= entry.permits;
+			if (used + permits <= this.rateLimit.limit) {
+				return entry.at + this.rateLimit.intervalMs - now;
+			}
+		}
+		return this.rateLimit.intervalMs;
+	}
+
+	take(permits: number, now: number): void {
+		this.evict(now);
+		this.entries.push({ at: now, permits });
+	}
+
+	isIdle(now: number): boolean {
+		this.evict(now);
+		return this.entries.length === 0;
+	}
+
+	private evict(now: number): void {
+		const start = now - this.rateLimit.intervalMs;
+		this.entries = this.entries.filter((entry) => entry.at > start);
+	}
+}
+
+/**
+ * In-process rate limiter keeping a separate limit per key (e.g. per provider or per API key).
+ *
+ * @example
+ * This rate limiter lets 60 requests a minute through for each provider, and 10 a minute for "openai".
+ * Callers wait for a permit for up to 5 seconds.
+ * ```typescript
+ * const rateLimiter = new RateLimiter({
+ *     limit: 60,
+ *     intervalMs: 60000,
+ *     limits: { openai: { limit: 10, intervalMs: 60000 } },
+ *     maxWaitMs: 5000,
+ * });
+ * await rateLimiter.acquire("openai");
+ * const vectors = await embeddings.embedDocuments(texts);
+ *
+ * // Or as a policy, next to the RetryHandler and the CircuitBreaker
+ * const result = await rateLimiter.execute((signal) => fetch(url, { signal }), "openai");
+ * ```
+ */
+export class RateLimiter implements IRateLimiter {
+	private readonly states = new Map<string, RateLimitState>();
+	private sweptAt = Date.now();
+
+	constructor(private readonly options: RateLimiterOptions) {}
+
+	async acquire(key: string, permits = 1, signal?: AbortSignal): Promise<void> {
+		const deadline = Date.now() + (this.options.maxWaitMs ?? Infinity);
+		for (;;) {
+			signal?.throwIfAborted();
+			const state = this.getState(key, permits);
+			const now = Date.now();
+			const waitMs = state.getWaitMs(permits, now);
+			if (waitMs === 0) {
+				state.take(permits, now);
+				return;
+			}
+			if (now + waitMs > deadline) {
+				throw new RateLimitExceededError(key, waitMs);
+			}
+			await this.delay(waitMs, signal);
+		}
+	}
+
+	tryAcquire(key: string, permits = 1): boolean {
+		const state = this.getState(key, permits);
+		const now = Date.now();
+		if (state.getWaitMs(permits, now) > 0) {
+			return false;
+		}
+		state.take(permits, now);
+		return true;
+	}
+
+	async execute<T>(
+		operation: (signal?: AbortSignal) => Promise<T>,
+		operationName: string,
+		signal?: AbortSignal,
+	): Promise<T> {
+		await this.acquire(operationName, 1, signal);
+		return operation(signal);
+	}
+
+	private getState(key: string, permits: number): RateLimitState {
+		const { limits } = this.options;
+		const rateLimit =
+			(limits && Object.hasOwn(limits, key) ? limits[key] : undefined) ??
+			this.options;
+		if (permits > rateLimit.limit) {
+			throw new Error(
+				`Cannot acquire ${permits} permits for ${key}, its limit is ${rateLimit.limit}`,
+			);
+		}
+		this.sweep();
+		let state = this.states.get(key);
+		if (!state) {
+			state =
+				this.options.mode === "sliding-window"
+					? new SlidingWindow(rateLimit)
+					: new TokenBucket(rateLimit, Date.now());
+			this.states.set(key, state);
+		}
+		return state;
+	}
+
+	/**
+	 * Drop the states of idle keys at most once per default interval, so that the states of
+	 * keys no longer used do not pile up. An idle state holds all its permits, like a new one.
+	 */
+	private sweep(): void {
+		const now = Date.now();
+		if (now - this.sweptAt < this.options.intervalMs) {
+			return;
+		}
+		this.sweptAt = now;
+		for (const [key, state] of this.states) {
+			if (state.isIdle(now)) {
+				this.states.delete(key);
+			}
+		}
+	}
+
+	private delay(ms: number, signal?: AbortSignal): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const onAbort = () => {
+				clearTimeout(timer);
+				reject(signal?.reason);
+			};
+			const timer = setTimeout(() => {
+				signal?.removeEventListener("abort", onAbort);
+				resolve();
+			}, ms);
+			signal?.addEventListener("abort", onAbort, { once: true });
+		});
+	}
+}
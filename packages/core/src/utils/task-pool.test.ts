@@ -3,6 +3,7 @@
  */
 
 import { afterEach, beforeEach, describe, expect, it, jest } from "bun:test";
+import { TimeoutError } from "../errors";
 import {
 	type ITaskPool,
 	type Task,
@@ -328,6 +329,7 @@ describe("TaskPool", () => {
 				totalRuns: 0,
 				completedRuns: 0,
 				failedRuns: 0,
+				cancelledRuns: 0,
 				currentQueueSize: 0,
 				isRunning: false,
 				averageDurationMs: 0,
@@ -353,6 +355,124 @@ describe("TaskPool", () => {
 		});
 	});
 
+	describe("cancellation", () => {
+		beforeEach(() => {
+			taskPool = new TaskPool(testTask);
+		});
+
+		it("should cancel a run enqueued with an aborted signal", async () => {
+			const controller = new AbortController();
+			controller.abort(new Error("Not needed anymore"));
+			const onProcessed = jest.fn();
+			taskPool.setOnProcessed(onProcessed);
+
+			const runId = await taskPool.enqueue({ value: 1 }, controller.signal);
+
+			const run = taskPool.getRunById(runId);
+			expect(run?.status).toBe(TaskRunStatus.CANCELLED);
+			expect(run?.error?.message).toBe("Not needed anymore");
+			expect(onProcessed).toHaveBeenCalledTimes(1);
+			expect(taskPool.getQueueSize()).toBe(0);
+		});
+
+		it("should drop a queued run when its signal is aborted", async () => {
+			const controller = new AbortController();
+			await taskPool.enqueue({ value: 1, delay: 50 });
+			const runId = await taskPool.enqueue({ value: 2 }, controller.signal);
+
+			controller.abort();
+
+			expect(taskPool.getQueueSize()).toBe(0);
+			const run = taskPool.getRunById(runId);
+			expect(run?.status).toBe(TaskRunStatus.CANCELLED);
+			expect(run?.error?.name).toBe("AbortError");
+			expect(run?.startedAt).toBeUndefined();
+		});
+
+		it("should pass the signal to the running task", async () => {
+			const controller = new AbortController();
+			const task = jest.fn(
+				(_params: TestParams, signal?: AbortSignal) =>
+					new Promise<TestResult>((_resolve, reject) => {
+						signal?.addEventListener("abort", () => reject(signal.reason));
+					}),
+			);
+			taskPool = new TaskPool(task);
+
+			const runId = await taskPool.enqueue({ value: 1 }, controller.signal);
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			expect(task).toHaveBeenCalledWith({ value: 1 }, controller.signal);
+			controller.abort();
+			await waitForTaskCompletion(taskPool, runId);
+
+			expect(taskPool.getRunById(runId)?.status).toBe(TaskRunStatus.CANCELLED);
+			expect(taskPool.getStats().cancelledRuns).toBe(1);
+		});
+
+		it("should stop listening to a shared signal once the runs are processed", async () => {
+			const controller = new AbortController();
+			const removeEventListener = jest.spyOn(
+				controller.signal,
+				"removeEventListener",
+			);
+
+			await taskPool.enqueue({ value: 1 }, controller.signal);
+			await taskPool.enqueue({ value: 2 }, controller.signal);
+			const runId = await taskPool.enqueue({ value: 3 }, controller.signal);
+			await waitForTaskCompletion(taskPool, runId);
+
+			expect(removeEventListener).toHaveBeenCalledTimes(3);
+			expect(removeEventListener.mock.calls[0]?.[0]).toBe("abort");
+		});
+
+		it("should stop listening to the signals of the runs dropped on cleanup", async () => {
+			const controller = new AbortController();
+			const removeEventListener = jest.spyOn(
+				controller.signal,
+				"removeEventListener",
+			);
+			await taskPool.enqueue({ value: 1, delay: 10 });
+			await taskPool.enqueue({ value: 2 }, controller.signal);
+
+			await taskPool.cleanup();
+
+			expect(removeEventListener).toHaveBeenCalledTimes(1);
+			controller.abort();
+			expect(taskPool.getStats().cancelledRuns).toBe(0);
+		});
+	});
+
+	describe("timeout", () => {
+		it("should fail runs exceeding the time limit and abort their task", async () => {
+			let taskSignal: AbortSignal | undefined;
+			taskPool = new TaskPool(
+				(_params: TestParams, signal?: AbortSignal) => {
+					taskSignal = signal;
+					return new Promise<TestResult>(() => {});
+				},
+				{ timeoutMs: 20 },
+			);
+
+			const runId = await taskPool.enqueue({ value: 1 });
+			await waitForTaskCompletion(taskPool, runId);
+
+			const run = taskPool.getRunById(runId);
+			expect(run?.status).toBe(TaskRunStatus.FAILED);
+			expect(run?.error).toBeInstanceOf(TimeoutError);
+			expect(taskSignal?.aborted).toBe(true);
+			expect(taskPool.isRunning()).toBe(false);
+		});
+
+		it("should complete runs within the time limit", async () => {
+			taskPool = new TaskPool(testTask, { timeoutMs: 1000 });
+
+			const runId = await taskPool.enqueue({ value: 2, delay: 5 });
+			await waitForTaskCompletion(taskPool, runId);
+
+			expect(taskPool.getRunById(runId)?.result?.doubled).toBe(4);
+		});
+	});
+
 	describe("cleanup", () => {
 		beforeEach(() => {
 			taskPool = new TaskPool(testTask);
@@ -417,7 +537,8 @@ async function waitForTaskCompletion<TParams, TResult>(
 		if (
 			run &&
 			(run.status === TaskRunStatus.COMPLETED ||
-				run.status === TaskRunStatus.FAILED)
+				run.status === TaskRunStatus.FAILED ||
+				run.status === TaskRunStatus.CANCELLED)
 		) {
 			return;
 		}
@@ -3,10 +3,16 @@
  * Maintains run history and provides a generic interface for task execution
  */
 
+import { withTimeout } from "../errors/with-timeout";
+
 /**
- * Represents a task function that can be executed by the task pool
+ * Represents a task function that can be executed by the task pool.
+ * The signal given when the task was enqueued is passed along.
  */
-export type Task<TParams, TResult> = (params: TParams) => Promise<TResult>;
+export type Task<TParams, TResult> = (
+	params: TParams,
+	signal?: AbortSignal,
+) => Promise<TResult>;
 
 /**
  * Status of a task run
@@ -16,6 +22,7 @@ export enum TaskRunStatus {
 	RUNNING = "running",
 	COMPLETED = "completed",
 	FAILED = "failed",
+	CANCELLED = "cancelled",
 }
 
 /**
@@ -48,6 +55,7 @@ export interface PoolStats {
 	totalRuns: number;
 	completedRuns: number;
 	failedRuns: number;
+	cancelledRuns: number;
 	currentQueueSize: number;
 	isRunning: boolean;
 	averageDurationMs: number;
@@ -59,6 +67,12 @@ export interface PoolStats {
 export interface TaskPoolOptions {
 	/** Maximum number of runs to keep in history (default: 100) */
 	maxHistorySize?: number;
+	/**
+	 * Time limit of a run in milliseconds (default: none).
+	 * A run reaching it fails with a TimeoutError and its task's signal is aborted,
+	 * so that a hanging task does not hold the pool forever.
+	 */
+	timeoutMs?: number;
 }
 
 /**
@@ -68,9 +82,10 @@ export interface ITaskPool<TParams, TResult> {
 	/**
 	 * Add a task to the queue
 	 * @param params Task parameters
+	 * @param signal Signal cancelling the run: a queued run is dropped, a running task receives it
 	 * @returns Promise that resolves with task run ID
 	 */
-	enqueue(params: TParams): Promise<string>;
+	enqueue(params: TParams, signal?: AbortSignal): Promise<string>;
 
 	/**
 	 * Get current queue size
@@ -126,10 +141,15 @@ export interface ITaskPool<TParams, TResult> {
  */
 export class TaskPool<TParams, TResult> implements ITaskPool<TParams, TResult> {
 	private readonly task: Task<TParams, TResult>;
-	private readonly options: Required<TaskPoolOptions>;
+	private readonly options: Required<Omit<TaskPoolOptions, "timeoutMs">>;
+	private readonly timeoutMs: number | undefined;
 
 	private readonly queue: Array<TaskRun<TParams, TResult>> = [];
 	private readonly history: Array<TaskRun<TParams, TResult>> = [];
+	private readonly signals = new Map<
+		string,
+		{ signal: AbortSignal; onAbort: () => void }
+	>();
 	private currentRun: TaskRun<TParams, TResult> | undefined;
 	private isProcessing = false;
 	private isShuttingDown = false;
@@ -142,9 +162,10 @@ export class TaskPool<TParams, TResult> implements ITaskPool<TParams, TResult> {
 		this.options = {
 			maxHistorySize: options.maxHistorySize ?? 100,
 		};
+		this.timeoutMs = options.timeoutMs;
 	}
 
-	async enqueue(params: TParams): Promise<string> {
+	async enqueue(params: TParams, signal?: AbortSignal): Promise<string> {
 		if (this.isShuttingDown) {
 			throw new Error("Task pool is shutting down, cannot enqueue new tasks");
 		}
@@ -157,6 +178,16 @@ export class TaskPool<TParams, TResult> implements ITaskPool<TParams, TResult> {
 			queuedAt: new Date(),
 		};
 
+		if (signal?.aborted) {
+			this.cancelRun(taskRun, signal.reason);
+			return runId;
+		}
+		if (signal) {
+			const onAbort = () => this.onAbort(taskRun, signal.reason);
+			this.signals.set(runId, { signal, onAbort });
+			signal.addEventListener("abort", onAbort, { once: true });
+		}
+
 		this.queue.push(taskRun);
 
 		// Start processing if not already running
@@ -206,6 +237,9 @@ export class TaskPool<TParams, TResult> implements ITaskPool<TParams, TResult> {
 		const failedRuns = this.history.filter(
 			(run) => run.status === TaskRunStatus.FAILED,
 		).length;
+		const cancelledRuns = this.history.filter(
+			(run) => run.status === TaskRunStatus.CANCELLED,
+		).length;
 
 		const durations = this.history
 			.filter((run) => run.duration !== undefined)
@@ -221,6 +255,7 @@ export class TaskPool<TParams, TResult> implements ITaskPool<TParams, TResult> {
 			totalRuns: this.history.length,
 			completedRuns,
 			failedRuns,
+			cancelledRuns,
 			currentQueueSize: this.queue.length,
 			isRunning: this.isProcessing,
 			averageDurationMs: Math.round(averageDurationMs),
@@ -241,6 +276,9 @@ export class TaskPool<TParams, TResult> implements ITaskPool<TParams, TResult> {
 
 		// Clear remaining queue
 		this.queue.length = 0;
+		for (const runId of [...this.signals.keys()]) {
+			this.releaseSignal(runId);
+		}
 	}
 
 	setOnProcessed(callback: (taskRun: TaskRun<TParams, TResult>) => void): void {
@@ -269,9 +307,17 @@ export class TaskPool<TParams, TResult> implements ITaskPool<TParams, TResult> {
 		taskRun.queueTime =
 			taskRun.startedAt.getTime() - taskRun.queuedAt.getTime();
 
+		const signal = this.signals.get(taskRun.id)?.signal;
 		try {
 			// Execute the task
-			const result = await this.task(taskRun.params);
+			const result =
+				this.timeoutMs === undefined
+					? await this.task(taskRun.params, signal)
+					: await withTimeout(
+							(timeoutSignal) => this.task(taskRun.params, timeoutSignal),
+							this.timeoutMs,
+							{ operationName: taskRun.id, signal },
+						);
 
 			// Task completed successfully
 			taskRun.status = TaskRunStatus.COMPLETED;
@@ -280,8 +326,10 @@ export class TaskPool<TParams, TResult> implements ITaskPool<TParams, TResult> {
 			taskRun.duration =
 				taskRun.completedAt.getTime() - taskRun.startedAt.getTime();
 		} catch (error) {
-			// Task failed
-			taskRun.status = TaskRunStatus.FAILED;
+			// Task failed, or gave up because it was cancelled
+			taskRun.status = signal?.aborted
+				? TaskRunStatus.CANCELLED
+				: TaskRunStatus.FAILED;
 			taskRun.error = error instanceof Error ? error : new Error(String(error));
 			taskRun.completedAt = new Date();
 			taskRun.duration =
@@ -289,6 +337,7 @@ export class TaskPool<TParams, TResult> implements ITaskPool<TParams, TResult> {
 		}
 
 		// Move to history and cleanup
+		this.releaseSignal(taskRun.id);
 		this.addToHistory(taskRun);
 		this.currentRun = undefined;
 		this.isProcessing = false;
@@ -303,6 +352,44 @@ export class TaskPool<TParams, TResult> implements ITaskPool<TParams, TResult> {
 		}
 	}
 
+	/**
+	 * Drop a queued run whose signal was aborted.
+	 * A running task is left to handle the signal it received.
+	 */
+	private onAbort(taskRun: TaskRun<TParams, TResult>, reason: unknown): void {
+		const index = this.queue.indexOf(taskRun);
+		if (index === -1) {
+			return;
+		}
+		this.queue.splice(index, 1);
+		this.signals.delete(taskRun.id);
+		this.cancelRun(taskRun, reason);
+	}
+
+	/**
+	 * Stop listening to the signal of a run, so that a signal shared by many runs
+	 * does not keep them alive.
+	 */
+	private releaseSignal(runId: string): void {
+		const entry = this.signals.get(runId);
+		if (entry) {
+			entry.signal.removeEventListener("abort", entry.onAbort);
+			this.signals.delete(runId);
+		}
+	}
+
+	/**
+	 * Record a run cancelled before it started
+	 */
+	private cancelRun(taskRun: TaskRun<TParams, TResult>, reason: unknown): void {
+		taskRun.status = TaskRunStatus.CANCELLED;
+		taskRun.error =
+			reason instanceof Error ? reason : new Error(String(reason));
+		taskRun.completedAt = new Date();
+		this.addToHistory(taskRun);
+		this.onProcessed?.(taskRun);
+	}
+
 	/**
 	 * Add completed task run to history
 	 */